@@ -2,12 +2,15 @@ import md5 from 'md5';
 import * as path from 'path';
 import * as urlParser from 'url';
 import deepmerge from 'deepmerge';
+import * as QueryStringParser from 'querystring';
+import { CookieJar } from 'tough-cookie';
 import * as backoff from 'backoff';
 import * as imagemin from 'imagemin';
+import sharp from 'sharp';
 import ServiceRunner from 'service-runner';
 import imageminAdvPng from 'imagemin-advpng';
 import type { BackoffStrategy } from 'backoff';
-import axios, { AxiosRequestConfig } from 'axios';
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import imageminPngquant from 'imagemin-pngquant';
 import imageminGifsicle from 'imagemin-gifsicle';
 import imageminJpegoptim from 'imagemin-jpegoptim';
@@ -18,6 +21,7 @@ import {
   objToQueryString,
   readFilePromise,
   DB_ERROR,
+  MAXLAG_SECONDS,
   WEAK_ETAG_REGEX,
   writeFilePromise,
   renderArticle,
@@ -26,11 +30,22 @@ import {
   isImageUrl,
   isWebpCandidateImageMimeType,
   shouldConvertImageFilenameToWebp,
+  isAvifCandidateImageMimeType,
+  shouldAddAvifImageFilename,
 } from './util';
+import { DEFAULT_AVIF_QUALITY } from './util/const';
 import S3 from './S3';
 import { Dump } from './Dump';
 import logger from './Logger';
 import MediaWiki from './MediaWiki';
+import { HttpCache, HTTP_CACHE_MISS } from './util/HttpCache';
+import { ConcurrencyController, DEFAULT_PAUSE, parseRetryAfter } from './util/ConcurrencyController';
+import { metrics } from './util/Metrics';
+import { authorizationHeader } from './util/mwAuth';
+import { createHttpClient, HttpClientOpts } from './util/httpClient';
+
+/* The login session of the action API expired, see Downloader.getJSON */
+export const SESSION_EXPIRED = 'SESSION_EXPIRED';
 
 
 const imageminOptions = new Map();
@@ -74,6 +89,11 @@ interface DownloaderOpts {
   optimisationCacheUrl: string;
   s3?: S3;
   webp: boolean;
+  avif?: boolean;
+  avifQuality?: number;
+  httpCache?: HttpCache;
+  /* Proxy, headers and TLS options of the requests */
+  httpClientOpts?: HttpClientOpts;
   backoffOptions?: BackoffOptions;
 }
 
@@ -94,16 +114,21 @@ export interface MWCapabilities {
 
 class Downloader {
   public readonly mw: MediaWiki;
-  public loginCookie: string = '';
+  /* Cookies of all the servers, e.g. the login session of the wiki */
+  public readonly cookieJar = new CookieJar();
   public readonly speed: number;
   public baseUrl: string;
   public baseUrlForMainPage: string;
   public cssDependenceUrls: KVS<boolean> = {};
   public readonly webp: boolean = false;
+  public readonly avif: boolean = false;
+  /* Requests of the scrape, also the ones not going through the pools (article list, favicon...) */
+  public readonly httpClient: AxiosInstance;
 
   private readonly uaString: string;
-  private activeRequests = 0;
-  private maxActiveRequests = 1;
+  private readonly avifQuality: number;
+  /* Concurrency of the requests, by server */
+  private readonly pools = new Map<string, ConcurrencyController>();
   private readonly requestTimeout: number;
   private readonly noLocalParserFallback: boolean = false;
   private readonly forceLocalParser: boolean = false;
@@ -111,24 +136,28 @@ class Downloader {
   private readonly backoffOptions: BackoffOptions;
   private readonly optimisationCacheUrl: string;
   private s3: S3;
+  private readonly httpCache?: HttpCache;
   private mwCapabilities: MWCapabilities; // todo move to MW
+  private relogin: Promise<void>;
   public arrayBufferRequestOptions: AxiosRequestConfig;
   private jsonRequestOptions: AxiosRequestConfig;
   public streamRequestOptions: AxiosRequestConfig;
 
 
-  constructor({ mw, uaString, speed, reqTimeout, noLocalParserFallback, forceLocalParser: forceLocalParser, optimisationCacheUrl, s3, webp, backoffOptions }: DownloaderOpts) {
+  constructor({ mw, uaString, speed, reqTimeout, noLocalParserFallback, forceLocalParser: forceLocalParser, optimisationCacheUrl, s3, webp, avif, avifQuality, httpCache, httpClientOpts, backoffOptions }: DownloaderOpts) {
     this.mw = mw;
     this.uaString = uaString;
     this.speed = speed;
-    this.maxActiveRequests = speed * 10;
     this.requestTimeout = reqTimeout;
-    this.loginCookie = '';
     this.noLocalParserFallback = noLocalParserFallback;
     this.forceLocalParser = forceLocalParser;
     this.optimisationCacheUrl = optimisationCacheUrl;
     this.webp = webp;
+    this.avif = !!avif;
+    this.avifQuality = avifQuality || DEFAULT_AVIF_QUALITY;
     this.s3 = s3;
+    this.httpCache = httpCache;
+    this.httpClient = createHttpClient(httpClientOpts);
     this.mwCapabilities = {
       veApiAvailable: false,
       coordinatesAvailable: true,
@@ -139,7 +168,7 @@ class Downloader {
     this.backoffOptions = {
       strategy: new backoff.ExponentialStrategy(),
       failAfter: 7,
-      retryIf: (err: any) => err.code === 'ECONNABORTED' || ![400, 403, 404].includes(err.response?.status),
+      retryIf: (err: any) => err.code !== HTTP_CACHE_MISS && err.code !== SESSION_EXPIRED && (err.code === 'ECONNABORTED' || ![400, 403, 404].includes(err.response?.status)),
       backoffHandler: (number: number, delay: number) => {
         logger.info(`[backoff] #${number} after ${delay} ms`);
       },
@@ -151,7 +180,6 @@ class Downloader {
         'accept': 'text/html; charset=utf-8; profile="https://www.mediawiki.org/wiki/Specs/HTML/1.8.0"',
         'cache-control': 'public, max-stale=86400',
         'user-agent': this.uaString,
-        'cookie': this.loginCookie,
       },
       responseType: 'arraybuffer',
       timeout: this.requestTimeout,
@@ -165,7 +193,6 @@ class Downloader {
         'cache-control': 'public, max-stale=86400',
         'accept-encoding': 'gzip, deflate',
         'user-agent': this.uaString,
-        'cookie': this.loginCookie,
       },
       responseType: 'json',
       timeout: this.requestTimeout,
@@ -178,7 +205,6 @@ class Downloader {
         'cache-control': 'public, max-stale=86400',
         'accept-encoding': 'gzip, deflate',
         'user-agent': this.uaString,
-        'cookie': this.loginCookie,
       },
       responseType: 'stream',
       timeout: this.requestTimeout,
@@ -234,7 +260,7 @@ class Downloader {
 
   public async checkApiAvailabilty(url: string): Promise<boolean>{
     try {
-      const resp = await axios.get(url);
+      const resp = await this.request(url, { method: 'GET' });
       return resp.status === 200 && !resp.headers['mediawiki-api-error'];
     } catch (err) {
       logger.warn(err);
@@ -443,43 +469,50 @@ class Downloader {
 
   public async getArticle(articleId: string, dump: Dump): Promise<RenderedArticle[]> {
     const isMainPage = dump.isMainPage(articleId);
-    const articleApiUrl = this.getArticleUrl(articleId, isMainPage);
+    const { variant } = dump.opts;
+    const articleApiUrl = this.addVariant(this.getArticleUrl(articleId, isMainPage), variant);
 
-    logger.info(`Getting article [${articleId}] from ${articleApiUrl}`);
+    logger.info(`Getting article [${articleId}] from ${articleApiUrl}${variant ? ` in variant [${variant}]` : ''}`);
 
-    const json = await this.getJSON<any>(articleApiUrl);
+    // The REST API only takes the variant from the Accept-Language header
+    const json = await this.getJSON<any>(articleApiUrl, variant ? { 'accept-language': variant } : {});
     return await renderArticle(json, articleId, dump, this.mwCapabilities);
   }
 
-  public async getJSON<T>(_url: string): Promise<T> {
-    const self = this;
-    const url = this.deserializeUrl(_url);
-    await self.claimRequest();
-    return new Promise<T>((resolve, reject) => {
-      this.backoffCall(this.getJSONCb, url, (err: any, val: any) => {
-        self.releaseRequest();
-        if (err) {
-          const httpStatus = err.response && err.response.status;
-          logger.warn(`Failed to get [${url}] [status=${httpStatus}]`);
-          reject(err);
-        } else {
-          resolve(val);
-        }
-      });
+  /* A request which fails because the login session expired is done again after logging in again */
+  public async getJSON<T>(_url: string, headers: KVS<string> = {}): Promise<T> {
+    const url = this.addAssertUser(this.addMaxlag(this.deserializeUrl(_url)));
+    try {
+      return await this.getJSONWithBackoff<T>(url, headers);
+    } catch (err) {
+      if (err.code !== SESSION_EXPIRED) {
+        throw err;
+      }
+      await this.loginAgain();
+      return this.getJSONWithBackoff<T>(url, headers);
+    }
+  }
+
+  /* Form POST to the action API, e.g. to log in, never cached */
+  public async postJSON<T>(url: string, form: KVS<string>): Promise<T> {
+    const resp = await this.request(url, {
+      ...this.jsonRequestOptions,
+      method: 'POST',
+      headers: { ...this.jsonRequestOptions.headers, 'content-type': 'application/x-www-form-urlencoded' },
+      data: objToQueryString(form),
     });
+    return resp.data;
   }
 
-  public async downloadContent(_url: string): Promise<{ content: Buffer | string, responseHeaders: any }> {
+  /* With --avif, avifContent is the AVIF version of the jpeg and png images, the content being their optimised original */
+  public async downloadContent(_url: string): Promise<{ content: Buffer | string, responseHeaders: any, avifContent?: Buffer }> {
     if (!_url) {
       throw new Error(`Parameter [${_url}] is not a valid url`);
     }
     const url = this.deserializeUrl(_url);
 
-    const self = this;
-    await self.claimRequest();
     return new Promise((resolve, reject) => {
       this.backoffCall(this.getContentCb, url, async (err: any, val: any) => {
-        self.releaseRequest();
         if (err) {
           const httpStatus = err.response && err.response.status;
           logger.warn(`Failed to get [${url}] [status=${httpStatus}]`);
@@ -493,7 +526,7 @@ class Downloader {
 
   public async canGetUrl(url: string): Promise<boolean> {
     try {
-      await axios.get(url);
+      await this.request(url, { method: 'GET' });
       return true;
     } catch (err) {
       return false;
@@ -539,6 +572,33 @@ class Downloader {
     }, {});
   }
 
+  /* Responses in different language variants are cached apart */
+  private static cacheUrl(url: string, requestOptions: AxiosRequestConfig) {
+    const variant = requestOptions.headers && requestOptions.headers['accept-language'];
+    return variant ? `${url}#accept-language=${variant}` : url;
+  }
+
+  /* Requests by host and status (error when there was no response) and bytes downloaded */
+  private static countResponse(url: string, resp?: AxiosResponse) {
+    const { host } = new URL(url);
+    metrics.inc('mwoffliner_http_requests_total', { host, status: resp ? String(resp.status) : 'error' });
+    if (!resp) {
+      return;
+    }
+    const size = Buffer.isBuffer(resp.data)
+      ? resp.data.length
+      : typeof resp.data === 'string' ? Buffer.byteLength(resp.data) : Number(resp.headers && resp.headers['content-length']) || 0;
+    metrics.inc('mwoffliner_http_downloaded_bytes_total', { host }, size);
+  }
+
+  private static isSessionExpiredResponse(resp: AxiosResponse) {
+    return !!resp.data && !!resp.data.error && resp.data.error.code === 'assertuserfailed';
+  }
+
+  private static isMaxlagResponse(resp: AxiosResponse) {
+    return !!resp.data && !!resp.data.error && resp.data.error.code === 'maxlag';
+  }
+
   private static handleMWWarningsAndErrors(resp: MwApiResponse): void {
     if (resp.warnings) logger.warn(`Got warning from MW Query ${JSON.stringify(resp.warnings, null, '\t')}`);
     if (resp.error?.code === DB_ERROR) throw new Error(`Got error from MW Query ${JSON.stringify(resp.error, null, '\t')}`);
@@ -569,47 +629,83 @@ class Downloader {
     return articleDetails;
   }
 
-  private async claimRequest(): Promise<null> {
-    if (this.activeRequests < this.maxActiveRequests) {
-      this.activeRequests += 1;
-      return null;
-    } else {
-      await new Promise((resolve) => {
-        setTimeout(resolve, 200);
-      });
-      return this.claimRequest();
+  /* Requests in flight, their current limit and the waiting requests, by server pool */
+  public getPoolStats() {
+    return Array.from(this.pools.values()).map((pool) => ({
+      name: pool.name,
+      activeRequests: pool.activeRequests,
+      currentLimit: pool.currentLimit,
+      waitingRequests: pool.waitingRequests,
+    }));
+  }
+
+  /* Requests to the REST API, to the action API and to the media hosts are throttled separately */
+  private getPool(url: string) {
+    const { host } = new URL(url);
+    const isRestApi = [this.mw.restApiUrl, this.mw.mobileRestApiUrl, this.mw.desktopRestApiUrl].some((restUrl) => url.startsWith(restUrl.href));
+    const name = isRestApi ? `${host} (REST)` : host;
+    if (!this.pools.has(name)) {
+      this.pools.set(name, new ConcurrencyController({ name, initial: this.speed, max: this.speed * 10 }));
     }
+    return this.pools.get(name);
   }
 
-  private async releaseRequest(): Promise<null> {
-    this.activeRequests -= 1;
-    return null;
+  /* Bots should ask the action API to fail when its databases lag, instead of making it worse */
+  private addMaxlag(url: string) {
+    return url.startsWith(this.mw.apiUrl.href) && !/[?&]maxlag=/.test(url) ? `${url}&maxlag=${MAXLAG_SECONDS}` : url;
   }
 
-  private getJSONCb = <T>( url: string, handler: (...args: any[]) => any): void => {
-    logger.info(`Getting JSON from [${url}]`);
-    axios.get<T>(url, this.jsonRequestOptions)
-      .then((a) => handler(null, a.data), handler)
-      .catch((err) => {
-        try {
-          if (err.response && err.response.status === 429) {
-            logger.log(`Received a [status=429], slowing down`);
-            const newMaxActiveRequests = Math.max(Math.ceil(this.maxActiveRequests * 0.9), 1);
-            logger.log(`Setting maxActiveRequests from [${this.maxActiveRequests}] to [${newMaxActiveRequests}]`);
-            this.maxActiveRequests = newMaxActiveRequests;
-            return this.getJSONCb(url , handler);
-          } else if (err.response && err.response.status === 404) {
-            handler(err);
-          }
-        } catch (a) {
-          logger.log('ERR', err)
-          handler(err);
+  /* The action API converts its content to the variant of the variant parameter */
+  private addVariant(url: string, variant?: string) {
+    return variant && url.startsWith(this.mw.apiUrl.href) ? `${url}&variant=${encodeURIComponent(variant)}` : url;
+  }
+
+  /* Logged in requests to the action API fail instead of silently going on anonymously */
+  private addAssertUser(url: string) {
+    return this.mw.hasSession && url.startsWith(this.mw.apiUrl.href) ? `${url}&assert=user` : url;
+  }
+
+  /* The requests failing at the same time all wait for the same new login */
+  private async loginAgain() {
+    if (!this.relogin) {
+      logger.log('Login session expired, logging in again');
+      this.relogin = this.mw.login(this).finally(() => {
+        this.relogin = null;
+      });
+    }
+    await this.relogin;
+  }
+
+  private getJSONWithBackoff<T>(url: string, headers: KVS<string>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.backoffCall((jsonUrl, handler) => this.getJSONCb(jsonUrl, handler, headers), url, (err: any, val: any) => {
+        if (err) {
+          const httpStatus = err.response && err.response.status;
+          logger.warn(`Failed to get [${url}] [status=${httpStatus}]`);
+          reject(err);
+        } else {
+          resolve(val);
         }
       });
+    });
+  }
+
+  private getJSONCb = <T>( url: string, handler: (...args: any[]) => any, headers: KVS<string> = {}): void => {
+    logger.info(`Getting JSON from [${url}]`);
+    this.request(url, { ...this.jsonRequestOptions, headers: { ...this.jsonRequestOptions.headers, ...headers } })
+      .then((a) => handler(null, a.data), handler);
   }
 
-  private async getCompressedBody(resp: any): Promise<any> {
+  /* Optimises the images in place, returns their AVIF version with --avif */
+  private async getCompressedBody(resp: any): Promise<Buffer | undefined> {
+    let avifContent: Buffer;
     if (isBitmapImageMimeType(resp.headers['content-type'])) {
+      const start = Date.now();
+      const originalSize = resp.data.length;
+      if (isAvifCandidateImageMimeType(this.avif, resp.headers['content-type']) &&
+          !this.cssDependenceUrls.hasOwnProperty(resp.config.url)) {
+        avifContent = await this.toAvif(resp.data);
+      }
       if (isWebpCandidateImageMimeType(this.webp, resp.headers['content-type']) &&
           !this.cssDependenceUrls.hasOwnProperty(resp.config.url)) {
         resp.data = await imagemin.buffer(resp.data, imageminOptions.get('webp').get(resp.headers['content-type']));
@@ -618,22 +714,24 @@ class Downloader {
       } else {
         resp.data = await imagemin.buffer(resp.data, imageminOptions.get('default').get(resp.headers['content-type']));
       }
-      return true;
+      metrics.inc('mwoffliner_imagemin_seconds_total', {}, (Date.now() - start) / 1000);
+      metrics.inc('mwoffliner_imagemin_saved_bytes_total', {}, originalSize - resp.data.length);
     }
-    return false;
+    return avifContent;
   }
 
   private getContentCb = async (url: string, handler: any): Promise<void> => {
     logger.info(`Downloading [${url}]`);
     try {
-      if (this.optimisationCacheUrl && isImageUrl(url)) {
+      if (this.optimisationCacheUrl && isImageUrl(url) && !this.httpCache?.replay) {
         this.downloadImage(url, handler);
       } else {
-        const resp = await axios(url, this.arrayBufferRequestOptions);
-        await this.getCompressedBody(resp);
+        const resp = await this.request(url, this.arrayBufferRequestOptions);
+        const avifContent = await this.getCompressedBody(resp);
         handler(null, {
           responseHeaders: resp.headers,
           content: resp.data,
+          avifContent,
         });
       }
     } catch (err) {
@@ -645,14 +743,34 @@ class Downloader {
     }
   }
 
+  private toAvif(data: Buffer) {
+    return sharp(data).avif({ quality: this.avifQuality }).toBuffer();
+  }
+
+  /* Blobs of the S3 optimisation cache are only reused by scrapes converting the images the same way */
+  private getImageCacheVersion() {
+    if (this.avif) {
+      return `avif-q${this.avifQuality}`;
+    }
+    return this.webp ? 'webp' : '1';
+  }
+
   private async downloadImage(url: string, handler: any) {
     try {
-      this.s3.downloadBlob(stripHttpFromUrl(url), this.webp ? 'webp' : '1').then(async (s3Resp) => {
-        if (s3Resp?.Metadata?.etag) {
-          this.arrayBufferRequestOptions.headers['If-None-Match']
-            = this.removeEtagWeakPrefix(s3Resp.Metadata.etag);
-        }
-        const mwResp = await axios(url, this.arrayBufferRequestOptions);
+      const cacheKey = stripHttpFromUrl(url);
+      const cacheVersion = this.getImageCacheVersion();
+      /* The AVIF version is cached apart, next to the optimised original */
+      const withAvif = shouldAddAvifImageFilename(url, this.avif) && !this.cssDependenceUrls.hasOwnProperty(url);
+      Promise.all([
+        this.s3.downloadBlob(cacheKey, cacheVersion),
+        withAvif ? this.s3.downloadBlob(`${cacheKey}.avif`, cacheVersion) : undefined,
+      ]).then(async ([s3Resp, s3AvifResp]) => {
+        const isCached = s3Resp?.Metadata?.etag && (!withAvif || s3AvifResp?.Metadata?.etag);
+        const requestOptions = isCached
+          ? { ...this.arrayBufferRequestOptions, headers: { ...this.arrayBufferRequestOptions.headers, 'If-None-Match': this.removeEtagWeakPrefix(s3Resp.Metadata.etag) } }
+          : this.arrayBufferRequestOptions;
+        /* Throttled and slowed down on overload like the other requests to the media host */
+        const mwResp = await this.request(url, requestOptions);
 
         // Most of the images after uploading once will always have
         // 304 status, until modified. We need to have
@@ -670,22 +788,28 @@ class Downloader {
           handler(null, {
             responseHeaders: headers,
             content: s3Resp.Body,
+            // An AVIF version missing from the cache is made again from the optimised original
+            avifContent: withAvif ? (s3AvifResp?.Body || await this.toAvif(s3Resp.Body)) : undefined,
           });
           return;
         }
 
         // Compress content
-        await this.getCompressedBody(mwResp);
+        const avifContent = await this.getCompressedBody(mwResp);
 
         // Check for the etag and upload
         const etag = this.removeEtagWeakPrefix(mwResp.headers.etag);
         if (etag) {
-          this.s3.uploadBlob(stripHttpFromUrl(url), mwResp.data, etag, this.webp ? 'webp' : '1');
+          this.s3.uploadBlob(cacheKey, mwResp.data, etag, cacheVersion);
+          if (avifContent) {
+            this.s3.uploadBlob(`${cacheKey}.avif`, avifContent, etag, cacheVersion);
+          }
         }
 
         handler(null, {
           responseHeaders: mwResp.headers,
           content: mwResp.data,
+          avifContent,
         });
       }).catch((err) => {
         this.errHandler(err, url, handler);
@@ -695,13 +819,108 @@ class Downloader {
     }
   }
 
-  private errHandler(err: any, url: string, handler: any): void {
-    if (err.response && err.response.status === 429) {
-      logger.log(`Received a [status=429], slowing down`);
-      const newMaxActiveRequests = Math.max(Math.ceil(this.maxActiveRequests * 0.9), 1);
-      logger.log(`Setting maxActiveRequests from [${this.maxActiveRequests}] to [${newMaxActiveRequests}]`);
-      this.maxActiveRequests = newMaxActiveRequests;
+  /*
+   * Requests go through the HTTP cache if there is one, and wait for a slot
+   * of the pool of their server. Overload signals of the server shrink the
+   * pool, they fail the request so that it is retried with backoff.
+   */
+  private async request(url: string, requestOptions: AxiosRequestConfig): Promise<AxiosResponse> {
+    const pool = this.getPool(url);
+    await pool.acquire();
+    const start = Date.now();
+    let overloaded = false;
+    try {
+      const resp = await this.withSession(url, requestOptions, (options) => this.requestWithCache(url, options));
+      if (Downloader.isSessionExpiredResponse(resp)) {
+        throw Object.assign(new Error(`MediaWiki login session expired: ${resp.data.error.info}`), { code: SESSION_EXPIRED });
+      }
+      if (Downloader.isMaxlagResponse(resp)) {
+        overloaded = true;
+        pool.pause(parseRetryAfter(resp.headers['retry-after']) || MAXLAG_SECONDS * 1000);
+        throw Object.assign(new Error(`MediaWiki database lag: ${resp.data.error.info}`), { code: 'MAXLAG' });
+      }
+      logger.withContext({ url, status: resp.status, duration: Date.now() - start }).info(`Requested [${url}] [status=${resp.status}]`);
+      Downloader.countResponse(url, resp);
+      return resp;
+    } catch (err) {
+      const status = err.response && err.response.status;
+      Downloader.countResponse(url, err.response);
+      if (status === 429 || status === 503) {
+        overloaded = true;
+        pool.pause(parseRetryAfter(err.response.headers && err.response.headers['retry-after']) || DEFAULT_PAUSE);
+      }
+      logger.withContext({ url, status, duration: Date.now() - start }).info(`Failed to request [${url}] [status=${status}]: ${err.message}`);
+      throw err;
+    } finally {
+      pool.release(overloaded);
     }
+  }
+
+  /*
+   * Sends the cookies of the jar, and the OAuth authorization to the wiki,
+   * then keeps the cookies set by the response, even a failed one.
+   */
+  private async withSession(url: string, requestOptions: AxiosRequestConfig, send: (options: AxiosRequestConfig) => Promise<AxiosResponse>): Promise<AxiosResponse> {
+    const headers: KVS<string> = { ...requestOptions.headers };
+    const cookie = this.cookieJar.getCookieStringSync(url);
+    if (cookie) {
+      headers.cookie = cookie;
+    }
+    if (this.mw.oauth && new URL(url).host === this.mw.baseUrl.host) {
+      const form = typeof requestOptions.data === 'string' ? QueryStringParser.parse(requestOptions.data) as KVS<string> : {};
+      headers.authorization = authorizationHeader(this.mw.oauth, requestOptions.method || 'GET', url, form);
+    }
+    const storeCookies = (resp: AxiosResponse) => {
+      for (const setCookie of [].concat(resp?.headers?.['set-cookie'] || [])) {
+        this.cookieJar.setCookieSync(setCookie, url, { ignoreError: true });
+      }
+    };
+    try {
+      const resp = await send({ ...requestOptions, headers });
+      storeCookies(resp);
+      return resp;
+    } catch (err) {
+      storeCookies(err.response);
+      throw err;
+    }
+  }
+
+  private async requestWithCache(url: string, requestOptions: AxiosRequestConfig): Promise<AxiosResponse> {
+    if (!this.httpCache || requestOptions.method === 'POST') {
+      return this.httpClient(url, requestOptions);
+    }
+
+    const cacheUrl = Downloader.cacheUrl(url, requestOptions);
+    const cached = await this.httpCache.get(cacheUrl);
+    if (this.httpCache.replay) {
+      if (!cached) {
+        throw HttpCache.missError(cacheUrl);
+      }
+      return HttpCache.toResponse(cached, requestOptions.responseType, requestOptions);
+    }
+    if (cached && HttpCache.isFresh(cached.entry)) {
+      return HttpCache.toResponse(cached, requestOptions.responseType, requestOptions);
+    }
+
+    const shouldRevalidate = cached && HttpCache.isRevalidable(cached.entry);
+    const resp = await this.httpClient(url, shouldRevalidate
+      ? {
+        ...requestOptions,
+        headers: { ...requestOptions.headers, ...HttpCache.revalidationHeaders(cached.entry) },
+        validateStatus(status) { return (status >= 200 && status < 300) || status === 304; },
+      }
+      : requestOptions);
+
+    if (resp.status === 304) {
+      return shouldRevalidate ? HttpCache.toResponse(cached, requestOptions.responseType, requestOptions) : resp;
+    }
+    if (!Downloader.isMaxlagResponse(resp) && !Downloader.isSessionExpiredResponse(resp)) {
+      await this.httpCache.put(cacheUrl, resp);
+    }
+    return resp;
+  }
+
+  private errHandler(err: any, url: string, handler: any): void {
     logger.log(`Not able to download content for ${url} due to ${err}`);
     handler(err);
   }
@@ -1,11 +1,16 @@
 import * as pathParser from 'path';
 import * as urlParser from 'url';
 import { AsyncQueue } from 'async';
-import { existsSync } from 'fs';
+import { existsSync, statSync } from 'fs';
 import * as domino from 'domino';
 import logger from './Logger';
 import Downloader from './Downloader';
 import { getStringsForLang } from './util';
+import { Checkpoint } from './util/Checkpoint';
+import { PreviousZim } from './util/PreviousZim';
+import { RunReport } from './util/RunReport';
+import { ScrapeEvents, throwIfAborted } from './util/ScrapeEvents';
+import type { ScrapeSignal } from './util/ScrapeEvents';
 
 interface DumpOpts {
     tmpDir: string;
@@ -17,9 +22,21 @@ interface DumpOpts {
     customZimTags?: string;
     customZimTitle?: string;
     customZimDescription?: string;
+    customZimLongDescription?: string;
+    customZimLicense?: string;
+    customZimRelation?: string;
     mainPage?: string;
     filenamePrefix?: string;
     articleList?: string;
+    categories?: string;
+    crawl?: boolean;
+    topArticles?: number;
+    /* Language variant of the content, e.g. zh-hans */
+    variant?: string;
+    /* Fraction of the articles which may fail before the dump is aborted */
+    articleFailureThreshold?: number;
+    /* Keep a checkpoint of the written articles and media, see Checkpoint */
+    checkpoint?: boolean;
     resume?: boolean;
     minifyHtml: boolean;
     keepEmptyParagraphs: boolean;
@@ -37,6 +54,12 @@ export class Dump {
     public strings: KVS<string>;
     public mwMetaData: MWMetaData;
     public outFile: string;
+    public checkpoint?: Checkpoint;
+    public previousZim?: PreviousZim;
+    public report = new RunReport();
+    public events: ScrapeEvents;
+    /* Cancellation of the scrape, checked between the phases, the articles and the files */
+    public signal?: ScrapeSignal;
     public mediaQueue: AsyncQueue<string>;
     public isMainPage = (articleId: string): boolean => { return this.mwMetaData.mainPage === articleId ? true : false }
     public status = {
@@ -47,6 +70,7 @@ export class Dump {
         articles: {
             success: 0,
             fail: 0,
+            reused: 0,
         },
         redirects: {
             written: 0,
@@ -55,10 +79,12 @@ export class Dump {
 
     private formatFlavour: string;
 
-    constructor(format: string, opts: DumpOpts, mwMetaData: MWMetaData, customProcessor?: CustomProcessor) {
+    constructor(format: string, opts: DumpOpts, mwMetaData: MWMetaData, customProcessor?: CustomProcessor, events = new ScrapeEvents(), signal?: ScrapeSignal) {
         this.mwMetaData = mwMetaData;
         this.opts = opts;
         this.customProcessor = customProcessor;
+        this.events = events;
+        this.signal = signal;
 
         const [formatStr, formatFlavour] = format.split(':');
         this.nopic = formatStr.includes('nopic');
@@ -101,11 +127,17 @@ export class Dump {
                     break;
                 }
             }
-            radical += langSuffix;
+            radical += this.opts.variant ? this.opts.variant.toLowerCase() : langSuffix;
         }
         if (!withoutSelection && !this.opts.filenamePrefix) {
             if (this.opts.articleList) {
                 radical += `_${pathParser.basename(this.opts.articleList).toLowerCase().replace(/\.\w{3}$/, '')}`;
+            } else if (this.opts.categories) {
+                radical += `_${String(this.opts.categories).toLowerCase().replace(/^category:/, '').replace(/[\s,:]+/g, '-')}`;
+            } else if (this.opts.topArticles) {
+                radical += `_top${this.opts.topArticles}`;
+            } else if (this.opts.crawl) {
+                radical += '_crawl';
             } else {
                 radical += '_all';
             }
@@ -119,14 +151,100 @@ export class Dump {
         return radical;
     }
 
-    public checkResume() {
-        if (this.opts.resume) {
+    /*
+     * Returns true if the ZIM file is already done and the dump can be skipped.
+     * Otherwise opens the checkpoint of the dump: the one of the interrupted
+     * scrape with --resume, a new one with --checkpoint or --resume.
+     */
+    public async checkResume(): Promise<boolean> {
+        const checkpointPath = this.computeCheckpointPath();
+        const hasCheckpoint = Checkpoint.exists(checkpointPath);
+        if (this.opts.resume && !hasCheckpoint) {
             const zimPath = this.computeZimRootPath();
             if (existsSync(zimPath)) {
                 logger.log(`${zimPath} is already done, skip dumping & ZIM file generation`);
-                throw new Error(`TODO: IMPLEMENT RESUME`);
+                return true;
             }
         }
+
+        if (!this.opts.checkpoint && !this.opts.resume) {
+            return false;
+        }
+        if (hasCheckpoint && !this.opts.resume) {
+            logger.log(`Starting over without --resume, replacing the checkpoint of the interrupted scrape`);
+            Checkpoint.discard(checkpointPath);
+        }
+
+        this.checkpoint = await Checkpoint.open(checkpointPath, { filenameDate: this.opts.filenameDate });
+        /* Keep the ZIM filename of the interrupted scrape */
+        this.opts.filenameDate = this.checkpoint.filenameDate;
+        return false;
+    }
+
+    /* Open a previous ZIM, given directly or as the latest ZIM of this dump in a directory */
+    public openPreviousZim(previousZimPath: string) {
+        const zimPath = statSync(previousZimPath).isDirectory()
+            ? PreviousZim.findInDirectory(previousZimPath, this.computeFilenameRadical(false, false, true))
+            : previousZimPath;
+        if (!zimPath) {
+            logger.log(`No previous ZIM found in [${previousZimPath}], downloading all articles`);
+            return;
+        }
+        if (pathParser.resolve(zimPath) === pathParser.resolve(this.computeZimRootPath())) {
+            logger.warn(`Previous ZIM [${zimPath}] is the ZIM being written, ignoring it`);
+            return;
+        }
+        logger.log(`Reusing unchanged articles of previous ZIM [${zimPath}]`);
+        this.previousZim = new PreviousZim(zimPath);
+    }
+
+    /* Phase of the run report and of the events, an aborted scrape stops before the next one */
+    public startPhase(phase: string) {
+        this.endPhase();
+        throwIfAborted(this.signal);
+        this.report.startPhase(phase);
+        this.events.emit('phaseStart', { phase, outFile: this.outFile });
+    }
+
+    public endPhase() {
+        const ended = this.report.endPhase();
+        if (ended) {
+            this.events.emit('phaseEnd', { phase: ended.name, outFile: this.outFile, duration: ended.end - ended.start });
+        }
+    }
+
+    public computeCheckpointPath() {
+        return pathParser.resolve(this.opts.outputDirectory, `${this.computeFilenameRadical(false, false, true)}.resume`);
+    }
+
+    /* Metadata of the ZIM, before checkZimMetadata(). Counter is computed by the writer */
+    public computeZimMetadata(): KVS<string> {
+        const title = this.opts.customZimTitle || this.mwMetaData.title;
+        return {
+            Tags: this.computeZimTags(),
+            Language: this.mwMetaData.langIso3,
+            Title: title,
+            Name: this.computeFilenameRadical(false, true, true),
+            Flavour: this.computeFlavour(),
+            Description: this.opts.customZimDescription || this.mwMetaData.subTitle || title,
+            LongDescription: this.opts.customZimLongDescription,
+            Creator: this.mwMetaData.creator,
+            Publisher: this.opts.publisher,
+            Date: new Date().toISOString().split('T')[0],
+            License: this.opts.customZimLicense || this.mwMetaData.license,
+            Source: this.mwMetaData.webUrl,
+            Variant: this.opts.variant,
+            Relation: this.opts.customZimRelation || this.computeZimRelation(),
+        };
+    }
+
+    /* Name of the ZIM of the whole wiki, which a selection of its articles is part of */
+    public computeZimRelation() {
+        const isSelection = this.opts.articleList || this.opts.categories || this.opts.topArticles || this.opts.crawl;
+        if (!isSelection || this.opts.filenamePrefix) {
+            return undefined;
+        }
+        return `${this.computeFilenameRadical(true, true, true)}_all`;
     }
 
     public computeZimTags() {
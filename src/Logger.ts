@@ -1,26 +1,76 @@
+import { format } from 'util';
+import type { ScrapeEvents } from './util/ScrapeEvents';
+
+export type LogFormat = 'text' | 'json';
+
+export const logFormats: LogFormat[] = ['text', 'json'];
+
+/* Fields of the JSON log lines, for the messages about one article or one request */
+export interface LogContext {
+  articleId?: string;
+  url?: string;
+  status?: number;
+  /* In milliseconds */
+  duration?: number;
+}
+
+type LogLevel = 'info' | 'log' | 'warn' | 'error';
+
 class Logger {
+  public format: LogFormat = 'text';
+  /* Current step of the scrape, in the JSON log lines */
+  public phase: string;
+  /* Listeners of execute(), they get the warnings even without --verbose */
+  public events?: ScrapeEvents;
+  /* Progress bar kept on the last line of the terminal, below the log lines */
+  private statusLine: string;
+
   public getTs() {
     return (new Date()).toISOString();
   }
 
   public info(...args: any[]) {
     if (!!(process as any).verbose) {
-      console.info(`[info] [${this.getTs()}]`, ...args);
+      this.print('info', args);
     }
   }
 
   public log(...args: any[]) {
-    console.log(`[log] [${this.getTs()}]`, ...args);
+    this.print('log', args);
   }
 
   public warn(...args: any[]) {
+    this.emitWarning(args);
     if (!!(process as any).verbose) {
-      console.warn(`[warn] [${this.getTs()}]`, ...args);
+      this.print('warn', args);
     }
   }
 
   public error(...args: any[]) {
-    console.error(`[error] [${this.getTs()}]`, ...args);
+    this.print('error', args);
+  }
+
+  /* Same methods, with fields added to the JSON log lines */
+  public withContext(context: LogContext) {
+    return {
+      info: (...args: any[]) => (process as any).verbose && this.print('info', args, context),
+      log: (...args: any[]) => this.print('log', args, context),
+      warn: (...args: any[]) => {
+        this.emitWarning(args);
+        return (process as any).verbose && this.print('warn', args, context);
+      },
+      error: (...args: any[]) => this.print('error', args, context),
+    };
+  }
+
+  public setStatusLine(line?: string) {
+    if (this.statusLine) {
+      process.stdout.write('\r\x1b[K');
+    }
+    this.statusLine = line && line.slice(0, Math.max(0, (process.stdout.columns || 80) - 1));
+    if (this.statusLine) {
+      process.stdout.write(this.statusLine);
+    }
   }
 
   public logifyArray(arr: any[]) {
@@ -31,6 +81,25 @@ class Logger {
       return JSON.stringify(ret);
     }
   }
+
+  private emitWarning(args: any[]) {
+    if (this.events) {
+      this.events.emit('warning', { message: format(args[0], ...args.slice(1)) });
+    }
+  }
+
+  private print(level: LogLevel, args: any[], context: LogContext = {}) {
+    if (this.format === 'json') {
+      const line = { level, time: this.getTs(), phase: this.phase, ...context, message: format(args[0], ...args.slice(1)) };
+      console[level](JSON.stringify(line));
+    } else if (this.statusLine) {
+      process.stdout.write('\r\x1b[K');
+      console[level](`[${level}] [${this.getTs()}]`, ...args);
+      process.stdout.write(this.statusLine);
+    } else {
+      console[level](`[${level}] [${this.getTs()}]`, ...args);
+    }
+  }
 }
 
 // export default Logger;
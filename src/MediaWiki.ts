@@ -5,6 +5,7 @@ import * as util from './util';
 import * as domino from 'domino';
 import type Downloader from './Downloader';
 import { ensureTrailingChar } from './util';
+import type { MwOAuthCredentials } from './util/mwAuth';
 
 
 class MediaWiki {
@@ -20,6 +21,9 @@ class MediaWiki {
   public readonly getCategories: boolean;
   public readonly namespaces: MWNamespaces = {};
   public readonly namespacesToMirror: string[] = [];
+  public readonly oauth: MwOAuthCredentials;
+  /* Logged in with a username and a password, the session can expire */
+  public hasSession = false;
 
   private readonly wikiPath: string;
   private readonly username: string;
@@ -32,6 +36,7 @@ class MediaWiki {
     this.domain = config.domain || '';
     this.username = config.username;
     this.password = config.password;
+    this.oauth = config.oauth;
     this.getCategories = config.getCategories;
 
     this.baseUrl = new URL(ensureTrailingChar(config.base, '/'));
@@ -52,27 +57,60 @@ class MediaWiki {
     this.articleApiUrlBase = `${this.apiUrl.href}action=parse&format=json&prop=${encodeURI('modules|jsconfigvars|headhtml')}&page=`;
   }
 
+  /*
+   * OAuth requests are authorized one by one, see Downloader. Passwords
+   * open a session: bot passwords (User@Bot) with action=login, main
+   * account passwords with action=clientlogin.
+   */
   public async login(downloader: Downloader) {
-    if (this.username && this.password) {
-      let url = `${this.apiUrl.href}action=login&format=json&lgname=${this.username}&lgpassword=${this.password}`;
-      if (this.domain) {
-        url = `${url}&lgdomain=${this.domain}`;
+    if (this.oauth) {
+      await this.checkLogin(downloader);
+      return;
+    }
+    if (!(this.username && this.password)) {
+      return;
+    }
+
+    const { login } = await downloader.postJSON<any>(this.apiUrl.href, {
+      action: 'login',
+      format: 'json',
+      lgname: this.username,
+      lgpassword: this.password,
+      lgdomain: this.domain || undefined,
+      lgtoken: await this.getLoginToken(downloader),
+    });
+    if (login.result !== 'Success') {
+      if (this.username.includes('@')) {
+        throw new Error(`Login Failed: ${login.reason || login.result}`);
       }
-      const { content } = await downloader.downloadContent(url);
-      let body = content.toString();
-      let jsonResponse = JSON.parse(body).login;
-      downloader.loginCookie = `${jsonResponse.cookieprefix}_session=${jsonResponse.sessionid}`;
-      if (jsonResponse.result !== 'SUCCESS') {
-        url = `${url}&lgtoken=${jsonResponse.token}`;
-        const { content: subContent } = await downloader.downloadContent(url);
-        body = subContent.toString();
-        jsonResponse = JSON.parse(body).login;
-        if (jsonResponse.result !== 'Success') {
-          throw new Error('Login Failed');
-        }
-        downloader.loginCookie = `${jsonResponse.cookieprefix}_session=${jsonResponse.sessionid}`;
+      const { clientlogin, error } = await downloader.postJSON<any>(this.apiUrl.href, {
+        action: 'clientlogin',
+        format: 'json',
+        username: this.username,
+        password: this.password,
+        domain: this.domain || undefined,
+        loginreturnurl: this.baseUrl.href,
+        logintoken: await this.getLoginToken(downloader),
+      });
+      if (!clientlogin || clientlogin.status !== 'PASS') {
+        throw new Error(`Login Failed: ${clientlogin ? clientlogin.message : error.info}`);
       }
     }
+    this.hasSession = true;
+    await this.checkLogin(downloader);
+  }
+
+  private async getLoginToken(downloader: Downloader): Promise<string> {
+    const { query } = await downloader.postJSON<any>(this.apiUrl.href, { action: 'query', meta: 'tokens', type: 'login', format: 'json' });
+    return query.tokens.logintoken;
+  }
+
+  private async checkLogin(downloader: Downloader) {
+    const { query, error } = await downloader.postJSON<any>(this.apiUrl.href, { action: 'query', meta: 'userinfo', format: 'json' });
+    if (!query || 'anon' in query.userinfo) {
+      throw new Error(`Login Failed: ${error ? error.info : 'still anonymous'}`);
+    }
+    logger.log(`Logged in as [${query.userinfo.name}]`);
   }
 
   // In all the url methods below:
@@ -90,6 +128,23 @@ class MediaWiki {
     return `${this.apiUrl.href}action=query&list=categorymembers&cmtype=subcat&cmlimit=max&format=json&cmtitle=${encodeURIComponent(articleId)}&cmcontinue=${continueStr}`;
   }
 
+  public pageLinksApiUrl(titles: string[], namespaces: number[], continueStr: string = '') {
+    return `${this.apiUrl.href}action=query&prop=links&pllimit=max&redirects=1&format=json&plnamespace=${namespaces.join('|')}&titles=${encodeURIComponent(titles.join('|'))}&plcontinue=${encodeURIComponent(continueStr)}`;
+  }
+
+  public pagePropsApiUrl(titles: string[]) {
+    return `${this.apiUrl.href}action=query&prop=info|pageprops&inprop=protection&ppprop=disambiguation&format=json&titles=${encodeURIComponent(titles.join('|'))}`;
+  }
+
+  public popularityApiUrl(titles: string[], namespaces: number[], continueOpts: KVS<string> = {}) {
+    const continueStr = util.objToQueryString(continueOpts);
+    return `${this.apiUrl.href}action=query&prop=info|linkshere|langlinks&lhprop=pageid&lhshow=!redirect&lhlimit=max&lllimit=max&format=json&lhnamespace=${namespaces.join('|')}&titles=${encodeURIComponent(titles.join('|'))}${continueStr ? `&${continueStr}` : ''}`;
+  }
+
+  public categoryMembersApiUrl(categoryTitle: string, continueStr: string = '') {
+    return `${this.apiUrl.href}action=query&list=categorymembers&cmtype=page|subcat&cmprop=title|type|ids&cmlimit=max&format=json&cmtitle=${encodeURIComponent(categoryTitle)}&cmcontinue=${encodeURIComponent(continueStr)}`;
+  }
+
   public async getNamespaces(addNamespaces: number[], downloader: Downloader) {
     const self = this;
     const url = `${this.apiUrl.href}action=query&meta=siteinfo&siprop=namespaces|namespacealiases&format=json`;
@@ -213,7 +268,7 @@ class MediaWiki {
   public async getSiteInfo(downloader: Downloader) {
     const self = this;
     logger.log('Getting site info...');
-    const query = `action=query&meta=siteinfo&format=json&siprop=general|namespaces|statistics|variables|category|wikidesc`;
+    const query = `action=query&meta=siteinfo&format=json&siprop=general|namespaces|statistics|variables|category|wikidesc|rightsinfo`;
     const body = await downloader.query(query);
     const entries = body.query.general;
 
@@ -222,25 +277,23 @@ class MediaWiki {
     const siteName = entries.sitename;
 
     const langs: string[] = [entries.lang].concat(entries.fallback.map((e: any) => e.code));
+    const variants: string[] = (entries.variants || []).map((variant: any) => variant.code);
+    const license: string = body.query.rightsinfo ? body.query.rightsinfo.text : undefined;
 
-    const [langIso2, langIso3] = await Promise.all(langs.map(async (lang: string) => {
-      let langIso3;
+    /* ISO 639-3 code of the language, or else of its first fallback language having one */
+    const langIso2 = entries.lang;
+    const langIso3 = await Promise.all(langs.map(async (lang: string) => {
       try {
-        langIso3 = await util.getIso3(lang);
+        return await util.getIso3(lang);
       } catch (err) {
-        langIso3 = lang;
+        return null;
       }
-      try {
-        return [
-          lang,
-          langIso3,
-        ];
-      } catch (err) {
-        return false;
+    })).then((possibleIso3s) => {
+      const iso3 = possibleIso3s.find((a) => a);
+      if (!iso3) {
+        logger.warn(`No ISO 639-3 code for language [${langIso2}], using [mis]`);
       }
-    })).then((possibleLangPairs) => {
-      possibleLangPairs = possibleLangPairs.filter((a) => a);
-      return possibleLangPairs[0] || ['en', 'eng'];
+      return iso3 || 'mis';
     });
 
     return {
@@ -248,6 +301,8 @@ class MediaWiki {
       siteName,
       langIso2,
       langIso3,
+      variants,
+      license,
     };
   }
 
@@ -268,7 +323,7 @@ class MediaWiki {
 
     const [
       textDir,
-      { langIso2, langIso3, mainPage, siteName },
+      { langIso2, langIso3, mainPage, siteName, variants, license },
       subTitle,
     ] = await Promise.all([
       this.getTextDirection(downloader),
@@ -287,6 +342,8 @@ class MediaWiki {
       domain: this.domain,
 
       textDir: textDir as TextDirection,
+      variants,
+      license,
       langIso2,
       langIso3,
       title: siteName,
@@ -7,9 +7,10 @@ class Redis {
   constructor(argv: any, config: any) {
     this.client = redis.createClient(argv.redis || config.defaults.redisConfig);
 
-    this.client.on('error', function (err: Error) {
+    this.client.on('error', (err: Error) => {
       logger.error(err.message);
-      process.exit(1);
+      // Fails the pending and next commands, and so the scrape, instead of reconnecting forever
+      this.client.end(true);
     });
   }
 }
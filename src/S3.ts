@@ -2,17 +2,21 @@ import S3File from 'aws-sdk';
 import logger from './Logger';
 import { Readable } from 'stream';
 import publicIp from 'public-ip';
+import type { HttpAgents } from './util/httpClient';
 
 class S3 {
     public url: any;
     public params: any;
     public s3Handler: any;
     public bucketName: string;
+    /* Proxy and TLS options of the requests, see createHttpAgents() */
+    private httpAgents?: HttpAgents;
 
-    constructor(s3Url: any, s3Params: any) {
+    constructor(s3Url: any, s3Params: any, httpAgents?: HttpAgents) {
         this.url = s3Url;
         this.params = s3Params;
         this.bucketName = s3Params.bucketName;
+        this.httpAgents = httpAgents;
     }
 
     public async initialise() {
@@ -21,6 +25,9 @@ class S3 {
             endpoint: s3UrlBase,
             accessKeyId: this.params.keyId,
             secretAccessKey: this.params.secretAccessKey,
+            ...(this.httpAgents ? {
+                httpOptions: { agent: s3UrlBase.protocol === 'http:' ? this.httpAgents.httpAgent : this.httpAgents.httpsAgent },
+            } : {}),
         });
         try {
             if (await this.bucketExists(this.bucketName) === true) {
@@ -5,12 +5,27 @@
 'use strict';
 
 import yargs from 'yargs';
+import yargsParser from 'yargs-parser';
 import { parameterDescriptions, requiredParams } from './parameterList';
+import type { ScrapeOptions } from './parameterList';
+import { loadConfigFile } from './util/configFile';
+
+/* Profiles are needed to read the --config file, before the other arguments are parsed */
+const profiles: string[] = [].concat(yargsParser(process.argv.slice(2)).profile || [])
+  .reduce((acc: string[], profile: string) => acc.concat(String(profile).split(',')), [])
+  .filter((profile: string) => profile);
 
 /************************************/
 /* Command Parsing ******************/
 /************************************/
 
+/* Options only read by the command line */
+interface CliOptions extends ScrapeOptions {
+  osTmpDir?: string;
+  config?: string;
+  profile?: string | string[];
+}
+
 const argv = yargs
   .help('help')
   .usage(
@@ -21,11 +36,20 @@ const argv = yargs
   Or, as a node script:
   node mwoffliner.js --mwUrl=https://en.wikipedia.org/ --adminEmail=foo@bar.net
   Or, as a npm script: '
-  npm run mwoffliner -- --mwUrl=https://en.wikipedia.org/ --adminEmail=foo@bar.net`,
+  npm run mwoffliner -- --mwUrl=https://en.wikipedia.org/ --adminEmail=foo@bar.net
+  Or, with the options in a file:
+  mwoffliner --config=wikis.yaml --profile=wikipedia_en --profile=nopic`,
   )
   .describe(parameterDescriptions)
+  .config('config', parameterDescriptions.config, (configPath) => loadConfigFile(configPath, profiles))
+  .check((args) => {
+    if (profiles.length && !args.config) {
+      throw new Error('--profile needs a --config file to read the profiles from');
+    }
+    return true;
+  })
   .require(requiredParams as any)
-  .strict().argv;
+  .strict().argv as yargs.Arguments<CliOptions>;
 
 /* ***********************************/
 /* TMPDIR OVERRIDE HAS TO BE HANDLED */
@@ -36,7 +60,7 @@ import fs, { readFileSync } from 'fs';
 import logger from './Logger';
 
 if (argv.osTmpDir) {
-  const osTmpDir = argv.osTmpDir as string;
+  const osTmpDir = argv.osTmpDir;
 
   try {
     if (fs.statSync(osTmpDir)) {
@@ -54,7 +78,15 @@ if (argv.osTmpDir) {
 /* TESTING ALL ARGUMENTS */
 /* ***********************/
 
-import { sanitize_all } from './sanitize-argument';
+import { sanitize_all, sanitize_httpClient } from './sanitize-argument';
+
+try {
+  sanitize_httpClient(argv);
+} catch (err) {
+  console.error(`\n\n**********\n\n${err.message}\n\n**********\n\n`);
+  process.exit(2);
+}
+
 sanitize_all(argv).catch((err) => {
   console.error(`\n\n**********\n\n${err.message}\n\n**********\n\n`);
   process.exit(2);
@@ -68,8 +100,22 @@ const execStartTime = Date.now();
 
 import * as  mwofflinerLib from './mwoffliner.lib';
 
+/* SIGINT and SIGTERM abort the scrape, which cleans up before exiting; a second signal exits at once */
+const scrapeSignal = { aborted: false };
+let abortExitCode = 2;
+for (const [signal, signalNumber] of [['SIGINT', 2], ['SIGTERM', 15]] as Array<[NodeJS.Signals, number]>) {
+  process.on(signal, () => {
+    logger.log(signal);
+    if (scrapeSignal.aborted) {
+      process.exit(128 + signalNumber);
+    }
+    abortExitCode = 128 + signalNumber;
+    scrapeSignal.aborted = true;
+  });
+}
+
 mwofflinerLib
-  .execute(argv)
+  .execute(argv, { signal: scrapeSignal })
   .then(() => {
     console.info(
       `Finished running mwoffliner after [${Math.round(
@@ -94,7 +140,7 @@ mwofflinerLib
     if (err && err.message) {
       console.error(`\n\n**********\n\n${err.message}\n\n**********\n\n`);
     }
-    process.exit(2);
+    process.exit(err instanceof mwofflinerLib.AbortError ? abortExitCode : 2);
   });
 
 // Hack to allow serializing of Errors
@@ -6,9 +6,10 @@
 /* ********************************** */
 
 import fs, { readFileSync } from 'fs';
+import http from 'http';
 import os from 'os';
+import md5 from 'md5';
 import pmap from 'p-map';
-import axios from 'axios';
 import sharp from 'sharp';
 import domino from 'domino';
 import rimraf from 'rimraf';
@@ -20,13 +21,17 @@ import { ZimArticle, ZimCreator } from '@openzim/libzim';
 
 import {
   articleDetailXId,
+  articlesToRetryXId,
   filesToDownloadXPath,
   filesToRetryXPath,
   populateArticleDetail,
+  populateArticlesToRetry,
   populateFilesToDownload,
   populateFilesToRetry,
   populateRedirects,
-  redirectsXId
+  populateRunState,
+  redirectsXId,
+  runStateXKey,
 } from './stores';
 import {
   downloadAndSaveModule,
@@ -57,6 +62,27 @@ import { config } from './config';
 import MediaWiki from './MediaWiki';
 import Downloader from './Downloader';
 import { getArticleIds } from './util/redirects';
+import { PreviousZim } from './util/PreviousZim';
+import { redisKvsFactory } from './util/RedisKvs';
+import { memoryKvsFactory } from './util/MemoryKvs';
+import { HttpCache } from './util/HttpCache';
+import { DirectoryWriter } from './util/DirectoryWriter';
+import { EpubWriter } from './util/EpubWriter';
+import { DEFAULT_SAMPLE_RATE, estimateDump, writeEstimate } from './util/estimate';
+import { getCategoryArticleIds } from './util/categorySelection';
+import { filterArticles, hasArticleFilters } from './util/articleFilters';
+import { rankArticles } from './util/popularity';
+import { crawlArticleIds, DEFAULT_CRAWL_MAX_ARTICLES, writeArticleList } from './util/linkCrawl';
+import { createHttpAgents, getHttpClientOpts } from './util/httpClient';
+import { checkZimMetadata } from './util/zimMetadata';
+import { validateZim } from './util/zimValidation';
+import { ScrapeEvents, AbortError, throwIfAborted } from './util/ScrapeEvents';
+import { Progress } from './util/Progress';
+import { metrics, startMetricsServer } from './util/Metrics';
+import type { MetricCollector, MetricSample } from './util/Metrics';
+import type { ScrapeEventMap, ScrapeSignal } from './util/ScrapeEvents';
+import type { ScrapeOptions } from './parameterList';
+import type { OutputWriter } from './util/OutputWriter';
 import { articleListHomeTemplate } from './Templates';
 import { downloadFiles, saveArticles } from './util/saveArticles';
 import { getCategoriesForArticles, trimUnmirroredPages } from './util/categories';
@@ -64,18 +90,113 @@ import { getCategoriesForArticles, trimUnmirroredPages } from './util/categories
 
 const packageJSON = JSON.parse(readFileSync(path.join(__dirname, '../package.json'), 'utf8'));
 
-function closeRedis(redis: Redis) {
-  logger.log(`Flushing Redis DBs`);
-  if (redis.client.connected) {
+function closeStores(redis: Redis, keepStores = false) {
+  if (redis && !redis.client.connected) {
+    return;
+  }
+  if (keepStores && redis) {
+    logger.log(`Keeping Redis DBs to resume later`);
+  } else {
+    logger.log(`Flushing stores`);
     filesToDownloadXPath.flush();
     filesToRetryXPath.flush();
+    articlesToRetryXId.flush();
     articleDetailXId.flush();
     redirectsXId.flush();
+    runStateXKey.flush();
+  }
+  if (redis) {
     redis.client.quit();
   }
 }
 
-async function execute(argv: any) {
+/* Resources of a scrape to release once it is done, failed or aborted */
+interface ScrapeResources {
+  stores?: { redis: Redis };
+  tmpDirectory?: string;
+  metricsServer?: http.Server;
+  metricsCollectors?: MetricCollector[];
+}
+
+/* Requests in flight, their limit and the waiting requests of each server pool */
+function downloaderMetrics(downloader: Downloader): MetricSample[] {
+  return downloader.getPoolStats().reduce((acc, { name, activeRequests, currentLimit, waitingRequests }) => acc.concat([
+    { name: 'mwoffliner_http_requests_in_flight', labels: { pool: name }, value: activeRequests },
+    { name: 'mwoffliner_http_max_active_requests', labels: { pool: name }, value: currentLimit },
+    { name: 'mwoffliner_http_requests_waiting', labels: { pool: name }, value: waitingRequests },
+  ]), []);
+}
+
+/* Articles, media files and redirects written by each dump so far */
+function dumpMetrics(dumps: Dump[]): MetricSample[] {
+  return dumps.reduce((acc, dump) => {
+    const labels = { dump: dump.computeFilenameRadical() };
+    const { articles, files, redirects } = dump.status;
+    return acc.concat([
+      ...Object.entries(articles).map(([status, value]) => ({ name: 'mwoffliner_articles', labels: { ...labels, status }, value })),
+      ...Object.entries(files).map(([status, value]) => ({ name: 'mwoffliner_files', labels: { ...labels, status }, value })),
+      { name: 'mwoffliner_redirects', labels, value: redirects.written },
+    ]);
+  }, []);
+}
+
+async function storeMetrics(): Promise<MetricSample[]> {
+  const stores: Array<[string, { len(): Promise<number> }]> = [
+    ['articles', articleDetailXId],
+    ['redirects', redirectsXId],
+    ['media', filesToDownloadXPath],
+    ['media-retry', filesToRetryXPath],
+    ['article-retry', articlesToRetryXId],
+  ];
+  return Promise.all(stores.map(async ([store, kvs]) => ({ name: 'mwoffliner_store_items', labels: { store }, value: await kvs.len() })));
+}
+
+function addMetricsCollector(resources: ScrapeResources, collector: MetricCollector) {
+  metrics.addCollector(collector);
+  resources.metricsCollectors = (resources.metricsCollectors || []).concat(collector);
+}
+
+/* Progress listeners and cancellation of execute() */
+interface ScrapeControl {
+  events?: ScrapeEvents;
+  signal?: ScrapeSignal;
+}
+
+/*
+ * Scrapes the wiki to one output per format (and language variant). Errors
+ * and cancellations reject the returned promise, the process is left as is.
+ */
+async function execute(argv: ScrapeOptions, { events = new ScrapeEvents(), signal }: ScrapeControl = {}): Promise<Dump[]> {
+  throwIfAborted(signal);
+  const resources: ScrapeResources = {};
+  logger.events = events;
+  try {
+    const dumps = await scrape(argv, events, signal, resources);
+    closeStores(resources.stores.redis);
+    return dumps;
+  } catch (err) {
+    if (resources.stores) {
+      closeStores(resources.stores.redis, argv.resume || argv.checkpoint);
+    }
+    throw err;
+  } finally {
+    logger.events = undefined;
+    logger.setStatusLine(undefined);
+    Progress.bar = false;
+    for (const collector of resources.metricsCollectors || []) {
+      metrics.removeCollector(collector);
+    }
+    if (resources.metricsServer) {
+      resources.metricsServer.close();
+    }
+    if (resources.tmpDirectory) {
+      logger.log(`Deleting temporary directory [${resources.tmpDirectory}]`);
+      rimraf.sync(resources.tmpDirectory);
+    }
+  }
+}
+
+async function scrape(argv: ScrapeOptions, events: ScrapeEvents, signal: ScrapeSignal, resources: ScrapeResources) {
   /* ********************************* */
   /* CUSTOM VARIABLE SECTION ********* */
   /* ********************************* */
@@ -94,20 +215,62 @@ async function execute(argv: any) {
     mwDomain,
     mwUsername,
     mwPassword,
+    mwOAuthConsumerKey,
+    mwOAuthConsumerSecret,
+    mwOAuthAccessToken,
+    mwOAuthAccessSecret,
     requestTimeout,
     customMainPage,
     customZimTitle,
     customZimDescription,
+    customZimLongDescription,
+    customZimLicense,
+    customZimRelation,
     customZimTags,
     withoutZimFullTextIndex,
     webp,
+    avif,
+    avifQuality,
     format,
     filenamePrefix,
+    variant: _variant,
+    checkpoint,
     resume,
+    previousZim,
+    kvs,
+    httpCacheDirectory,
+    httpCacheReplay,
+    outputFormat = 'zim',
+    logFormat,
+    progressBar,
+    metricsPort,
+    metricsHost,
+    report,
+    estimate,
+    estimateSampleRate,
     publisher: _publisher,
     outputDirectory: _outputDirectory,
     addNamespaces: _addNamespaces,
     articleList: _articleList,
+    categories,
+    categoryDepth,
+    categoryInclude,
+    categoryExclude,
+    crawlHops,
+    crawlMaxArticles,
+    articleListToIgnore,
+    articleTitleExclude,
+    excludeDisambiguations,
+    minArticleBytes,
+    excludeProtected,
+    topArticles,
+    pageviewsFile,
+    pageviewsProjects,
+    articleFailureThreshold,
+    validateZim: _validateZim,
+    brokenLinkThreshold,
+    missingMediaThreshold,
+    danglingRedirectThreshold,
     customZimFavicon: _customZimFavicon,
     optimisationCacheUrl,
     noLocalParserFallback,
@@ -117,10 +280,15 @@ async function execute(argv: any) {
   } = argv;
 
   (process as any).verbose = !!verbose;
+  logger.format = logFormat || 'text';
+  /* The bar needs a terminal to redraw its line, the JSON lines are for machines */
+  Progress.bar = !!progressBar && !!process.stdout.isTTY && logger.format === 'text';
 
   logger.log(`Starting mwoffliner v${packageJSON.version}...`);
 
   let articleList = _articleList ? String(_articleList) : _articleList;
+  /* Articles given by an article list and/or categories, instead of all the articles of the wiki */
+  const hasArticleSelection = !!(articleList || categories);
   const publisher = _publisher || config.defaults.publisher;
   let customZimFavicon = _customZimFavicon;
 
@@ -133,8 +301,8 @@ async function execute(argv: any) {
   const cpuCount = os.cpus().length;
   const speed = Math.max(1, Math.round(cpuCount * (_speed || 1) * 3));
 
-  /* Necessary to avoid problems with https */
-  process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
+  /* Proxy, extra headers and TLS options of all the requests */
+  const httpClientOpts = getHttpClientOpts(argv);
 
   const nodeVersionSatisfiesPackage = semver.satisfies(process.version, packageJSON.engines.node);
   if (!nodeVersionSatisfiesPackage) {
@@ -147,20 +315,18 @@ async function execute(argv: any) {
     new(require(customFlavour)) : null;
 
   // Check for S3 creds
+  let s3: S3;
   if (optimisationCacheUrl) {
     // Decompose the url with path and other S3 creds
     const s3UrlObj = urlParser.parse(optimisationCacheUrl);
     const queryReader = QueryStringParser.parse(s3UrlObj.query);
     const s3Url = (s3UrlObj.host || '') + (s3UrlObj.pathname || '');
-    this.s3Obj = new S3(s3Url, queryReader);
-    await this.s3Obj.initialise().then(() => {
+    s3 = new S3(s3Url, queryReader, createHttpAgents(httpClientOpts));
+    await s3.initialise().then(() => {
       logger.log('Successfully logged in S3');
     });
   }
 
-  // Extract S3 obj to pass to downloader class
-  const s3 = this.s3Obj ? this.s3Obj : {};
-
   /* Wikipedia/... URL; Normalize by adding trailing / as necessary */
   const mw = new MediaWiki({
     getCategories: !!argv.getCategories,
@@ -171,9 +337,20 @@ async function execute(argv: any) {
     domain: mwDomain,
     password: mwPassword,
     username: mwUsername,
+    oauth: mwOAuthAccessToken ? {
+      consumerKey: mwOAuthConsumerKey,
+      consumerSecret: mwOAuthConsumerSecret,
+      accessToken: mwOAuthAccessToken,
+      accessSecret: mwOAuthAccessSecret,
+    } : undefined,
     wikiPath: mwWikiPath,
   });
 
+  const httpCache = httpCacheDirectory ? new HttpCache(path.resolve(httpCacheDirectory), !!httpCacheReplay) : undefined;
+  if (httpCache) {
+    logger.log(`Using HTTP cache [${httpCache.dir}]${httpCache.replay ? ' in replay mode' : ''}`);
+  }
+
   /* Download helpers; TODO: Merge with something else / expand this. */
   const downloader = new Downloader({
     mw,
@@ -185,8 +362,18 @@ async function execute(argv: any) {
     optimisationCacheUrl,
     s3,
     webp,
+    avif,
+    avifQuality: avifQuality === undefined ? undefined : Number(avifQuality),
+    httpCache,
+    httpClientOpts,
   });
 
+  /* Prometheus metrics, for the scrapes running for days */
+  if (metricsPort) {
+    resources.metricsServer = await startMetricsServer(Number(metricsPort), metricsHost || '127.0.0.1');
+    addMetricsCollector(resources, () => downloaderMetrics(downloader));
+  }
+
   /* Get MediaWiki Info */
   let mwMetaData;
   try {
@@ -196,14 +383,34 @@ async function execute(argv: any) {
     throw err;
   }
 
+  /* Language variants to dump the content in, one dump each */
+  const variants: string[] = _variant ? String(_variant).split(',').filter((a) => a) : [];
+  for (const variant of variants) {
+    if (!mwMetaData.variants.includes(variant)) {
+      throw new Error(`Language variant [${variant}] is not available on this wiki${mwMetaData.variants.length ? `, use one of [${mwMetaData.variants.join(',')}]` : ''}`);
+    }
+  }
+
   await downloader.checkCapabilities();
   await downloader.setBaseUrls();
 
-  const redis = new Redis(argv, config);
-  populateArticleDetail(redis.client);
-  populateRedirects(redis.client);
-  populateFilesToDownload(redis.client);
-  populateFilesToRetry(redis.client);
+  // Resumable scrapes need to find their stores again after a restart
+  const storesPrefix = resume || checkpoint
+    ? `mwoffliner-${md5(JSON.stringify({ mwUrl, format, articleList, categories, categoryDepth, categoryInclude, categoryExclude, crawlHops, crawlMaxArticles, articleListToIgnore, articleTitleExclude, excludeDisambiguations, minArticleBytes, excludeProtected, topArticles, pageviewsFile, pageviewsProjects, addNamespaces: _addNamespaces, getCategories: !!argv.getCategories }))}`
+    : String(Date.now());
+  const redis = kvs === 'memory' ? null : new Redis(argv, config);
+  const createKvs = redis ? redisKvsFactory(redis.client) : memoryKvsFactory;
+  logger.log(`Using [${redis ? 'redis' : 'memory'}] key-value store`);
+  populateArticleDetail(createKvs, storesPrefix);
+  populateRedirects(createKvs, storesPrefix);
+  populateFilesToDownload(createKvs, storesPrefix);
+  populateFilesToRetry(createKvs, storesPrefix);
+  populateArticlesToRetry(createKvs, storesPrefix);
+  populateRunState(createKvs, storesPrefix);
+  resources.stores = { redis };
+  if (resources.metricsServer) {
+    addMetricsCollector(resources, storeMetrics);
+  }
 
   // Output directory
   const outputDirectory = path.isAbsolute(_outputDirectory || '') ?
@@ -220,26 +427,10 @@ async function execute(argv: any) {
     logger.error(`Failed to create temporary directory, exiting`, err);
     throw err;
   }
+  resources.tmpDirectory = tmpDirectory;
   logger.log(`Using temporary directory ${tmpDirectory}`);
 
-  process.on('exit', async (code) => {
-    logger.log(`Exiting with code [${code}]`);
-    logger.log(`Deleting temporary directory [${tmpDirectory}]`);
-    rimraf.sync(tmpDirectory);
-  });
-
-  process.on('SIGTERM', () => {
-    logger.log(`SIGTERM`);
-    closeRedis(redis);
-    process.exit(128 + 15);
-  });
-  process.on('SIGINT', () => {
-    logger.log(`SIGINT`);
-    closeRedis(redis);
-    process.exit(128 + 2);
-  });
-
-  const mainPage = customMainPage || (articleList ? '' : mwMetaData.mainPage);
+  const mainPage = customMainPage || (hasArticleSelection ? '' : mwMetaData.mainPage);
 
   /* *********************************** */
   /*       SYSTEM VARIABLE SECTION       */
@@ -257,7 +448,7 @@ async function execute(argv: any) {
     let content;
     if (faviconIsRemote) {
       logger.log(`Downloading remote zim favicon from [${customZimFavicon}]`);
-      content = await axios.get(customZimFavicon, downloader.arrayBufferRequestOptions)
+      content = await downloader.httpClient.get(customZimFavicon, downloader.arrayBufferRequestOptions)
         .then((a) => a.data)
         .catch((err) => {
           throw new Error(`Failed to download custom zim favicon from [${customZimFavicon}]`);
@@ -279,62 +470,95 @@ async function execute(argv: any) {
   /* GET CONTENT ********************* */
   /* ********************************* */
 
+  throwIfAborted(signal);
   await mw.login(downloader);
 
-  if (articleList && articleList.includes('http')) {
-    try {
-      const fileName = articleList.split('/').slice(-1)[0];
-      const tmpArticleListPath = path.join(tmpDirectory, fileName);
-      logger.log(`Downloading article list from [${articleList}] to [${tmpArticleListPath}]`);
-      const { data: articleListContentStream } = await axios.get(articleList, downloader.streamRequestOptions);
-      const articleListWriteStream = fs.createWriteStream(tmpArticleListPath);
-      await new Promise((resolve, reject) => {
-        articleListContentStream
-          .pipe(articleListWriteStream)
-          .on('error', (err: any) => reject(err))
-          .on('close', resolve);
-      });
-      articleList = tmpArticleListPath;
-    } catch (err) {
-      throw new Error(`Failed to download article list from [${articleList}]`);
-    }
-  }
-
-  let articleListLines: string[];
-  try {
-    articleListLines = articleList ? fs.readFileSync(articleList).toString().split('\n').filter((a) => a) : [];
-    logger.info(`ArticleList has [${articleListLines.length}] items`);
-  } catch (err) {
-    logger.error(`Failed to read articleList from [${articleList}]`, err);
-    throw err;
+  if (articleList) {
+    articleList = await fetchArticleList(articleList);
   }
+  let articleListLines = readArticleList(articleList);
+  const articleListToIgnoreLines = articleListToIgnore ? readArticleList(await fetchArticleList(String(articleListToIgnore))) : [];
 
   await mw.getNamespaces(addNamespaces, downloader);
 
-  logger.info(`Getting article ids`);
-  await getArticleIds(downloader, mw, mainPage, articleList ? articleListLines : null);
-  if (mw.getCategories) {
-    await getCategoriesForArticles(articleDetailXId, downloader, redis);
+  if (categories) {
+    const categoryArticleIds = await getCategoryArticleIds(downloader, mw, {
+      roots: String(categories).split(',').filter((a) => a),
+      depth: Number(categoryDepth) || 0,
+      include: [].concat(categoryInclude || []).map((pattern: string) => new RegExp(pattern)),
+      exclude: [].concat(categoryExclude || []).map((pattern: string) => new RegExp(pattern)),
+    });
+    articleListLines = Array.from(new Set(articleListLines.concat(categoryArticleIds)));
+  }
 
-    while ((await trimUnmirroredPages(downloader)) > 0) { // Remove unmirrored pages, categories, subCategories
-      // trimUnmirroredPages returns number of modified articles
+  if (crawlHops) {
+    articleListLines = await crawlArticleIds(downloader, mw, {
+      seeds: articleListLines.length ? articleListLines : [mwMetaData.mainPage],
+      hops: Number(crawlHops),
+      maxArticles: Number(crawlMaxArticles) || DEFAULT_CRAWL_MAX_ARTICLES,
+    });
+    await writeArticleList(path.join(outputDirectory, `${mw.webUrl.hostname}.crawl.txt`), articleListLines);
+  }
+
+  throwIfAborted(signal);
+  if (resume && await runStateXKey.get('articleIdsDone')) {
+    logger.log(`Reusing article ids of the interrupted scrape`);
+  } else {
+    logger.info(`Getting article ids`);
+    await getArticleIds(downloader, mw, mainPage, hasArticleSelection || crawlHops ? articleListLines : null);
+    const articleFilterOpts = {
+      ignoredIds: articleListToIgnoreLines,
+      titleExclude: [].concat(articleTitleExclude || []).map((pattern: string) => new RegExp(pattern)),
+      excludeDisambiguations: !!excludeDisambiguations,
+      minArticleBytes: Number(minArticleBytes) || 0,
+      excludeProtected: !!excludeProtected,
+      keptIds: [mainPage].filter((a) => a),
+    };
+    if (hasArticleFilters(articleFilterOpts)) {
+      const removedIds = await filterArticles(downloader, mw, articleFilterOpts);
+      articleListLines = articleListLines.filter((articleId) => !removedIds.has(articleId.replace(/ /g, '_')));
     }
+    if (topArticles) {
+      const rankedIds = await rankArticles(downloader, mw, {
+        pageviewsFile,
+        pageviewsProjects: pageviewsProjects ? String(pageviewsProjects).split(',') : [],
+      });
+      await writeArticleList(path.join(outputDirectory, `${mw.webUrl.hostname}.top${topArticles}.txt`), rankedIds.slice(0, topArticles));
+      const removedIds = await filterArticles(downloader, mw, { ignoredIds: rankedIds.slice(topArticles), keptIds: [mainPage].filter((a) => a) });
+      articleListLines = articleListLines.filter((articleId) => !removedIds.has(articleId.replace(/ /g, '_')));
+    }
+    if (mw.getCategories) {
+      await getCategoriesForArticles(articleDetailXId, downloader, createKvs);
+
+      while ((await trimUnmirroredPages(downloader)) > 0) { // Remove unmirrored pages, categories, subCategories
+        // trimUnmirroredPages returns number of modified articles
+      }
 
-    // while ((await simplifyGraph(downloader)).deletedNodes !== 0) {
-    //   // keep simplifying graph
-    // }
-    // await trimUnmirroredPages(downloader); // TODO: improve simplify graph to remove the need for a second trim
+      // while ((await simplifyGraph(downloader)).deletedNodes !== 0) {
+      //   // keep simplifying graph
+      // }
+      // await trimUnmirroredPages(downloader); // TODO: improve simplify graph to remove the need for a second trim
+    }
+    await runStateXKey.set('articleIdsDone', true);
   }
 
   const filenameDate = (new Date()).toISOString().slice(0, 7);
 
-  // Getting total number of articles from Redis
-  logger.log(`Total articles found in Redis: ${await articleDetailXId.len()}`);
+  // Getting total number of articles from the store
+  logger.log(`Total articles found in store: ${await articleDetailXId.len()}`);
 
 
   const dumps: Dump[] = [];
+  if (resources.metricsServer) {
+    addMetricsCollector(resources, () => dumpMetrics(dumps));
+  }
+
+  /* One dump per format and per language variant */
+  const dumpVariants = variants.length ? variants : [undefined];
+  const dumpConfigs = dumpFormats.reduce((acc, dumpFormat) => acc.concat(dumpVariants.map((variant) => ({ dumpFormat, variant }))), []);
 
-  for (const dumpFormat of dumpFormats) {
+  for (const { dumpFormat, variant } of dumpConfigs) {
+    throwIfAborted(signal);
     const dump = new Dump(dumpFormat, {
       tmpDir: tmpDirectory,
       username: mwUsername,
@@ -343,11 +567,20 @@ async function execute(argv: any) {
       mainPage,
       filenamePrefix,
       articleList,
+      categories,
+      crawl: !!crawlHops,
+      topArticles,
+      variant,
+      articleFailureThreshold: articleFailureThreshold === undefined ? undefined : Number(articleFailureThreshold),
       publisher,
       customZimDescription,
+      customZimLongDescription,
+      customZimLicense,
+      customZimRelation,
       customZimTags,
       customZimTitle,
       withoutZimFullTextIndex,
+      checkpoint,
       resume,
       minifyHtml,
       keepEmptyParagraphs,
@@ -356,24 +589,33 @@ async function execute(argv: any) {
     },
       { ...mwMetaData, mainPage },
       customProcessor,
+      events,
+      signal,
     );
     dumps.push(dump);
-    logger.log(`Doing dump`);
-    let shouldSkip = false;
-    try {
-      dump.checkResume();
-    } catch (err) {
-      shouldSkip = true;
+
+    if (estimate) {
+      await writeEstimate(dump, await estimateDump(dump, downloader, mw, estimateSampleRate || DEFAULT_SAMPLE_RATE));
+      continue;
     }
 
+    logger.log(`Doing dump`);
+    const shouldSkip = await dump.checkResume();
+
     if (shouldSkip) {
       logger.log(`Skipping dump`);
     } else {
+      let dumpError: Error;
       try {
         await doDump(dump);
       } catch (err) {
+        dumpError = err;
         debugger;
         throw err;
+      } finally {
+        if (report && dump.outFile) {
+          await dump.report.write(`${dump.outFile}.report.json`, dump.status, dumpError);
+        }
       }
       logger.log(`Finished dump`);
     }
@@ -383,26 +625,69 @@ async function execute(argv: any) {
 
   logger.log('All dumping(s) finished with success.');
 
+  /* Local copy of an article list given by URL */
+  async function fetchArticleList(list: string) {
+    if (!list.includes('http')) {
+      return list;
+    }
+    try {
+      const fileName = list.split('/').slice(-1)[0];
+      const tmpArticleListPath = path.join(tmpDirectory, fileName);
+      logger.log(`Downloading article list from [${list}] to [${tmpArticleListPath}]`);
+      const { data: articleListContentStream } = await downloader.httpClient.get(list, downloader.streamRequestOptions);
+      const articleListWriteStream = fs.createWriteStream(tmpArticleListPath);
+      await new Promise((resolve, reject) => {
+        articleListContentStream
+          .pipe(articleListWriteStream)
+          .on('error', (err: any) => reject(err))
+          .on('close', resolve);
+      });
+      return tmpArticleListPath;
+    } catch (err) {
+      throw new Error(`Failed to download article list from [${list}]`);
+    }
+  }
+
+  function readArticleList(list: string) {
+    try {
+      const lines = list ? fs.readFileSync(list).toString().split('\n').filter((a) => a) : [];
+      logger.info(`ArticleList [${list}] has [${lines.length}] items`);
+      return lines;
+    } catch (err) {
+      logger.error(`Failed to read articleList from [${list}]`, err);
+      throw err;
+    }
+  }
+
   async function doDump(dump: Dump) {
-    const outZim = path.resolve(dump.opts.outputDirectory, dump.computeFilenameRadical() + '.zim');
-    logger.log(`Writing zim to [${outZim}]`);
-    dump.outFile = outZim;
-
-    const zimCreator = new ZimCreator({
-      fileName: outZim,
-      fullTextIndexLanguage: dump.opts.withoutZimFullTextIndex ? '' : dump.mwMetaData.langIso3,
-      welcome: (dump.opts.mainPage ? dump.opts.mainPage : 'index'),
-      compression: zstd ? 'zstd' : 'lzma',
-    }, {
-      Tags: dump.computeZimTags(),
-      Language: dump.mwMetaData.langIso3,
-      Title: dump.opts.customZimTitle || dump.mwMetaData.title,
-      Name: dump.computeFilenameRadical(false, true, true),
-      Flavour: dump.computeFlavour(),
-      Description: dump.opts.customZimDescription || dump.mwMetaData.subTitle,
-      Creator: dump.mwMetaData.creator,
-      Publisher: dump.opts.publisher,
-    });
+    const metadata = checkZimMetadata(dump.computeZimMetadata());
+    const welcome = dump.opts.mainPage ? dump.opts.mainPage : 'index';
+
+    let zimCreator: OutputWriter;
+    if (outputFormat === 'directory') {
+      const outDirectory = path.resolve(dump.opts.outputDirectory, dump.computeFilenameRadical());
+      logger.log(`Writing directory [${outDirectory}]`);
+      dump.outFile = outDirectory;
+      zimCreator = new DirectoryWriter({ dir: outDirectory, welcome }, metadata);
+    } else if (outputFormat === 'epub') {
+      const outEpub = path.resolve(dump.opts.outputDirectory, dump.computeFilenameRadical() + '.epub');
+      logger.log(`Writing EPUB to [${outEpub}]`);
+      dump.outFile = outEpub;
+      zimCreator = new EpubWriter({ fileName: outEpub, articleIds: articleListLines, language: dump.opts.variant || dump.mwMetaData.langIso2 || 'en' }, metadata);
+    } else {
+      const outZim = path.resolve(dump.opts.outputDirectory, dump.computeFilenameRadical() + '.zim');
+      logger.log(`Writing zim to [${outZim}]`);
+      dump.outFile = outZim;
+      zimCreator = new ZimCreator({
+        fileName: outZim,
+        fullTextIndexLanguage: dump.opts.withoutZimFullTextIndex ? '' : dump.mwMetaData.langIso3,
+        welcome,
+        compression: zstd ? 'zstd' : 'lzma',
+      }, metadata);
+    }
+    if (report) {
+      zimCreator = dump.report.trackOutput(zimCreator);
+    }
     const scraperArticle = new ZimArticle({
       ns: 'M',
       data: `mwoffliner ${packageJSON.version}`,
@@ -410,9 +695,20 @@ async function execute(argv: any) {
     });
     zimCreator.addArticle(scraperArticle);
 
+    if (previousZim) {
+      dump.openPreviousZim(previousZim);
+    }
+
+    if (dump.checkpoint?.isResumed) {
+      dump.startPhase('resume');
+      await dump.checkpoint.replay(zimCreator, dump.status);
+    }
+
+    dump.startPhase('static files');
     logger.info('Copying Static Resource Files');
     await saveStaticFiles(config, zimCreator);
 
+    dump.startPhase('stylesheets');
     logger.info('Finding stylesheets to download');
     const stylesheetsToGet = await dump.getRelevantStylesheetUrls(downloader);
     logger.log(`Found [${stylesheetsToGet.length}] stylesheets to download`);
@@ -429,9 +725,11 @@ async function execute(argv: any) {
 
     await getThumbnailsData();
 
+    dump.startPhase('main page');
     logger.log(`Getting Main Page`);
     await getMainPage(dump, zimCreator, downloader);
 
+    dump.startPhase('articles');
     logger.log(`Getting articles`);
     const { jsModuleDependencies, cssModuleDependencies } = await saveArticles(zimCreator, downloader, mw, dump);
 
@@ -443,30 +741,65 @@ async function execute(argv: any) {
       { type: 'css', moduleList: Array.from(cssModuleDependencies) },
     ];
 
+    dump.startPhase('modules');
     if (downloader.webp) {
       logger.log('Downloading polyfill module');
       importPolyfillModules(zimCreator);
     }
 
     logger.log(`Downloading module dependencies`);
+    const moduleProgress = new Progress('downloading modules', jsModuleDependencies.size + cssModuleDependencies.size);
     await Promise.all(allDependenciesWithType.map(async ({ type, moduleList }) => {
-      return await pmap(moduleList, (oneModule) => {
-        return downloadAndSaveModule(zimCreator, mw, downloader, dump, oneModule, type as any);
+      return await pmap(moduleList, async (oneModule) => {
+        await downloadAndSaveModule(zimCreator, mw, downloader, dump, oneModule, type as any);
+        moduleProgress.tick();
       }, { concurrency: downloader.speed });
     }));
+    moduleProgress.end();
 
+    dump.startPhase('media');
     await downloadFiles(filesToDownloadXPath, zimCreator, dump, downloader);
 
-    logger.log(`Flushing Redis file store`);
+    logger.log(`Flushing file store`);
     await filesToDownloadXPath.flush();
     await filesToRetryXPath.flush();
 
+    dump.startPhase('redirects');
     logger.log(`Writing Article Redirects`);
     await writeArticleRedirects(downloader, dump, zimCreator);
 
-    logger.log(`Finishing Zim Creation`);
+    dump.startPhase('finalise');
+    logger.log(`Finishing ${outputFormat === 'zim' ? 'Zim' : outputFormat} Creation`);
     await zimCreator.finalise();
 
+    if (dump.checkpoint) {
+      dump.checkpoint.discard();
+    }
+
+    if (dump.previousZim) {
+      dump.previousZim.close();
+    }
+
+    if (outputFormat === 'zim') {
+      logger.log(`Writing ZIM manifest`);
+      await writeManifest(downloader, dump.outFile);
+    }
+
+    if (outputFormat === 'zim' && _validateZim) {
+      dump.startPhase('validation');
+      const validation = await validateZim(dump.outFile, {
+        welcome,
+        brokenLinkThreshold: brokenLinkThreshold === undefined ? undefined : Number(brokenLinkThreshold),
+        missingMediaThreshold: missingMediaThreshold === undefined ? undefined : Number(missingMediaThreshold),
+        danglingRedirectThreshold: danglingRedirectThreshold === undefined ? undefined : Number(danglingRedirectThreshold),
+      });
+      await fs.promises.writeFile(`${dump.outFile}.validation.json`, JSON.stringify(validation, null, '\t'));
+      if (validation.failures.length) {
+        throw new Error(`ZIM [${dump.outFile}] is not valid: ${validation.failures.join(', ')}`);
+      }
+    }
+
+    dump.endPhase();
     logger.log(`Summary of scrape actions:`, JSON.stringify(dump.status, null, '\t'));
   }
 
@@ -474,7 +807,27 @@ async function execute(argv: any) {
   /* FUNCTIONS *********************** */
   /* ********************************* */
 
-  async function writeArticleRedirects(downloader: Downloader, dump: Dump, zimCreator: ZimCreator) {
+  async function writeManifest(downloader: Downloader, zimPath: string) {
+    const revisions: KVS<number> = {};
+    const unmirroredLinks: KVS<string[]> = {};
+    await articleDetailXId.iterateItems(
+      downloader.speed,
+      async (articleKeyValuePairs) => {
+        for (const [articleId, articleDetail] of Object.entries(articleKeyValuePairs)) {
+          if (articleDetail.revisionId) {
+            revisions[articleId] = articleDetail.revisionId;
+          }
+          if (articleDetail.unmirroredLinks) {
+            unmirroredLinks[articleId] = articleDetail.unmirroredLinks;
+          }
+        }
+      },
+    );
+    await PreviousZim.writeManifest(zimPath, revisions, unmirroredLinks);
+  }
+
+  async function writeArticleRedirects(downloader: Downloader, dump: Dump, zimCreator: OutputWriter) {
+    const progress = new Progress('writing redirects', await redirectsXId.len());
     await redirectsXId.iterateItems(
       downloader.speed,
       async (redirects) => {
@@ -495,19 +848,24 @@ async function execute(argv: any) {
             zimCreator.addArticle(redirectArticle);
             dump.status.redirects.written += 1;
           }
+          progress.tick();
         }
       },
     );
+    progress.end();
   }
 
-  async function saveFavicon(dump: Dump, zimCreator: ZimCreator): Promise<{}> {
+  async function saveFavicon(dump: Dump, zimCreator: OutputWriter): Promise<{}> {
     logger.log('Saving favicon.png...');
 
-    async function saveFavicon(zimCreator: ZimCreator, faviconPath: string): Promise<{}> {
+    async function saveFavicon(zimCreator: OutputWriter, faviconPath: string): Promise<{}> {
       try {
         const source = await fs.promises.readFile(faviconPath);
-        const data = await sharp(source).resize(48, 48).toBuffer();
+        const data = await sharp(source).resize(48, 48).png().toBuffer();
         const article = new ZimArticle({ url: 'favicon', mimeType: 'image/png', data, ns: '-' });
+        // The same icon is the illustration of the ZIM in the readers' libraries
+        const illustration = new ZimArticle({ url: 'Illustration_48x48@1', mimeType: 'image/png', data, ns: 'M' });
+        await zimCreator.addArticle(illustration);
         return zimCreator.addArticle(article);
       } catch (e) {
         throw new Error('Failed to save favicon using sharp');
@@ -533,7 +891,7 @@ async function execute(argv: any) {
     return await saveFavicon(zimCreator, faviconPath);
   }
 
-  function getMainPage(dump: Dump, zimCreator: ZimCreator, downloader: Downloader) {
+  function getMainPage(dump: Dump, zimCreator: OutputWriter, downloader: Downloader) {
     async function createMainPage() {
       logger.log('Creating main page...');
       const doc = domino.createDocument(
@@ -564,7 +922,7 @@ async function execute(argv: any) {
       }
 
       if (articlesWithImages.length > MIN_IMAGE_THRESHOLD_ARTICLELIST_PAGE) {
-        const articlesWithImagesEl = articlesWithImages.map((article) => makeArticleImageTile(dump, article, downloader.webp)).join('\n');
+        const articlesWithImagesEl = articlesWithImages.map((article) => makeArticleImageTile(dump, article, downloader.webp, downloader.avif)).join('\n');
         doc.body.innerHTML = `<div id='container'><div id='content'>${articlesWithImagesEl}</div></div>`;
       } else {
         const articlesWithoutImagesEl = allArticles.map((article) => makeArticleListItem(dump, article)).join('\n');
@@ -594,7 +952,7 @@ async function execute(argv: any) {
   }
 
   async function getThumbnailsData(): Promise<void> {
-    if (customMainPage || !articleList || articleListLines.length <= MIN_IMAGE_THRESHOLD_ARTICLELIST_PAGE) return;
+    if (customMainPage || !hasArticleSelection || articleListLines.length <= MIN_IMAGE_THRESHOLD_ARTICLELIST_PAGE) return;
     logger.log(`Updating article thumbnails for articles`);
     let articleIndex = 0;
     let articlesWithImages = 0;
@@ -628,11 +986,12 @@ async function execute(argv: any) {
     }
   }
 
-  closeRedis(redis);
-
   return dumps;
 }
 
 export {
-  execute
+  execute,
+  ScrapeEvents,
+  AbortError,
 };
+export type { ScrapeOptions, ScrapeEventMap, ScrapeControl, ScrapeSignal };
@@ -1,14 +1,18 @@
 import os from 'os';
 import S3 from './S3';
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import Redis from './Redis';
 import urlParser from 'url';
 import pathParser from 'path';
-import logger from './Logger';
+import logger, { logFormats, LogFormat } from './Logger';
 import { config } from './config';
 import fs from 'fs';
 import * as QueryStringParser from 'querystring';
 import { isValidEmail } from './util';
+import { kvsBackends, KvsBackend } from './util/Kvs';
+import { outputFormats, OutputFormat } from './util/OutputWriter';
+import { createHttpAgents, createHttpClient, getHttpClientOpts, parseHeaders } from './util/httpClient';
+import { ZIM_METADATA_MAX_LENGTHS } from './util/zimMetadata';
 
 export async function sanitize_all(argv: any) {
 
@@ -22,6 +26,9 @@ export async function sanitize_all(argv: any) {
   } = argv;
 
   const cpuCount = os.cpus().length;
+  /* The proxy, headers and TLS options apply to the requests made while testing the arguments too */
+  const httpClientOpts = getHttpClientOpts(argv);
+  const httpClient = createHttpClient(httpClientOpts);
 
   // sanitizing speed
   sanitize_speed(_speed);
@@ -41,7 +48,7 @@ export async function sanitize_all(argv: any) {
       const s3UrlObj = urlParser.parse(optimisationCacheUrl);
       const queryReader = QueryStringParser.parse(s3UrlObj.query);
       const s3Url = (s3UrlObj.host || '') + (s3UrlObj.pathname || '');
-      this.s3Obj = new S3(s3Url, queryReader);
+      this.s3Obj = new S3(s3Url, queryReader, createHttpAgents(httpClientOpts));
       await this.s3Obj.initialise().then(() => {
         logger.log('Successfully logged in S3');
       });
@@ -50,25 +57,84 @@ export async function sanitize_all(argv: any) {
     throw err;
   }
 
-  // sanitizing mwUrl
-  await sanitize_mwUrl(mwUrl).catch((err)=>{
-    throw err;
-  });
+  // sanitizing HTTP cache
+  if (argv.httpCacheReplay && !argv.httpCacheDirectory) {
+    throw new Error('--httpCacheReplay needs an --httpCacheDirectory to replay.');
+  }
+
+  // sanitizing mwUrl, can't be checked without network in replay mode
+  if (!argv.httpCacheReplay) {
+    await sanitize_mwUrl(mwUrl, httpClient).catch((err)=>{
+      throw err;
+    });
+  }
 
   // sanitizing adminEmail
   sanitize_adminEmail(adminEmail);
 
+  // sanitizing key-value store backend
+  sanitize_kvs(argv.kvs);
+
+  // sanitizing output format
+  sanitize_outputFormat(argv.outputFormat, argv.articleList || argv.categories || argv.crawlHops, argv.webp);
+
+  // sanitizing log format
+  sanitize_logFormat(argv.logFormat);
+
+  // sanitizing estimate sample rate
+  sanitize_estimateSampleRate(argv.estimateSampleRate);
+
+  // sanitizing category selection
+  sanitize_categorySelection(argv);
+
+  // sanitizing link crawl
+  sanitize_crawl(argv.crawlHops, argv.crawlMaxArticles);
+
+  // sanitizing article filters
+  sanitize_articleFilters(argv.articleTitleExclude, argv.minArticleBytes);
+
+  // sanitizing popularity ranking
+  sanitize_topArticles(argv.topArticles, argv.pageviewsFile, argv.pageviewsProjects);
+
+  // sanitizing article failure threshold
+  sanitize_articleFailureThreshold(argv.articleFailureThreshold);
+
+  // sanitizing OAuth credentials
+  sanitize_mwOAuth(argv);
+
+  // sanitizing custom ZIM metadata
+  sanitize_customZimMetadata(argv);
+
+  // sanitizing language variants
+  sanitize_variant(argv.variant, argv.filenamePrefix);
+
+  // sanitizing ZIM validation
+  sanitize_zimValidation(argv);
+
+  // sanitizing AVIF images
+  sanitize_avif(argv.avif, argv.avifQuality, argv.webp);
+
+  // sanitizing metrics endpoint
+  sanitize_metrics(argv.metricsPort, argv.metricsHost);
+
   // Redis client sanitization
   // created a redis client and then closed it.
-  sanitize_redis(argv);
+  if (argv.kvs !== 'memory') {
+    sanitize_redis(argv);
+  }
 
   // sanitizing custom zim favicon
   if (customZimFavicon) {
-    await sanitize_customZimFavicon(customZimFavicon)
+    await sanitize_customZimFavicon(customZimFavicon, httpClient)
     .catch(err=>{
       throw err;
     });
   }
+
+  // sanitizing previous ZIM
+  if (argv.previousZim) {
+    sanitize_previousZim(argv.previousZim, argv.format);
+  }
 }
 
 export function sanitize_speed(_speed:any)
@@ -80,9 +146,9 @@ export function sanitize_speed(_speed:any)
   }
 }
 
-export async function sanitize_mwUrl(mwUrl:string)
+export async function sanitize_mwUrl(mwUrl:string, httpClient: AxiosInstance = axios)
 {
-    await axios
+    await httpClient
     .get(mwUrl)
     .catch((err)=>{
       throw new Error(`mwUrl [${mwUrl}] is not valid.`)
@@ -96,6 +162,180 @@ export function sanitize_adminEmail(adminEmail:any)
   }
 }
 
+export function sanitize_kvs(kvs: string) {
+  if (kvs && !kvsBackends.includes(kvs as KvsBackend)) {
+    throw new Error(`Key-value store [${kvs}] is not valid, use one of [${kvsBackends.join(', ')}].`);
+  }
+}
+
+export function sanitize_outputFormat(outputFormat: string, articleList?: string, webp?: boolean) {
+  if (outputFormat && !outputFormats.includes(outputFormat as OutputFormat)) {
+    throw new Error(`Output format [${outputFormat}] is not valid, use one of [${outputFormats.join(', ')}].`);
+  }
+  if (outputFormat === 'epub' && !articleList) {
+    throw new Error('EPUB output is only for --articleList, --categories or --crawlHops scrapes.');
+  }
+  // WebP is not a core media type of EPUB 3.2, readers do not have to support it
+  if (outputFormat === 'epub' && webp) {
+    throw new Error('--webp can not be used with the EPUB output format.');
+  }
+}
+
+export function sanitize_logFormat(logFormat: string) {
+  if (logFormat && !logFormats.includes(logFormat as LogFormat)) {
+    throw new Error(`Log format [${logFormat}] is not valid, use one of [${logFormats.join(', ')}].`);
+  }
+}
+
+export function sanitize_estimateSampleRate(estimateSampleRate: any) {
+  if (estimateSampleRate !== undefined && !(Number(estimateSampleRate) > 0 && Number(estimateSampleRate) <= 1)) {
+    throw new Error(`Estimate sample rate [${estimateSampleRate}] is not valid, use a number between 0 (excluded) and 1.`);
+  }
+}
+
+export function sanitize_categorySelection({ categories, categoryDepth, categoryInclude, categoryExclude }: any) {
+  if (!categories && (categoryDepth !== undefined || categoryInclude || categoryExclude)) {
+    throw new Error('--categoryDepth, --categoryInclude and --categoryExclude need --categories.');
+  }
+  if (categoryDepth !== undefined && !(Number.isInteger(Number(categoryDepth)) && Number(categoryDepth) >= 0)) {
+    throw new Error(`Category depth [${categoryDepth}] is not valid, use a positive integer.`);
+  }
+  for (const pattern of [].concat(categoryInclude || [], categoryExclude || [])) {
+    try {
+      RegExp(pattern);
+    } catch (err) {
+      throw new Error(`Category pattern [${pattern}] is not a valid regular expression.`);
+    }
+  }
+}
+
+export function sanitize_crawl(crawlHops: any, crawlMaxArticles: any) {
+  if (crawlHops !== undefined && !(Number.isInteger(Number(crawlHops)) && Number(crawlHops) > 0)) {
+    throw new Error(`Crawl hops [${crawlHops}] is not valid, use a strictly positive integer.`);
+  }
+  if (crawlMaxArticles !== undefined) {
+    if (crawlHops === undefined) {
+      throw new Error('--crawlMaxArticles needs --crawlHops.');
+    }
+    if (!(Number.isInteger(Number(crawlMaxArticles)) && Number(crawlMaxArticles) > 0)) {
+      throw new Error(`Crawl max articles [${crawlMaxArticles}] is not valid, use a strictly positive integer.`);
+    }
+  }
+}
+
+export function sanitize_articleFilters(articleTitleExclude: any, minArticleBytes: any) {
+  for (const pattern of [].concat(articleTitleExclude || [])) {
+    try {
+      RegExp(pattern);
+    } catch (err) {
+      throw new Error(`Article title pattern [${pattern}] is not a valid regular expression.`);
+    }
+  }
+  if (minArticleBytes !== undefined && !(Number.isInteger(Number(minArticleBytes)) && Number(minArticleBytes) >= 0)) {
+    throw new Error(`Minimum article bytes [${minArticleBytes}] is not valid, use a positive integer.`);
+  }
+}
+
+export function sanitize_topArticles(topArticles: any, pageviewsFile: string, pageviewsProjects: string) {
+  if (topArticles !== undefined && !(Number.isInteger(Number(topArticles)) && Number(topArticles) > 0)) {
+    throw new Error(`Top articles [${topArticles}] is not valid, use a strictly positive integer.`);
+  }
+  if ((pageviewsFile || pageviewsProjects) && topArticles === undefined) {
+    throw new Error('--pageviewsFile and --pageviewsProjects need --topArticles.');
+  }
+  if (pageviewsFile && !fs.existsSync(pageviewsFile)) {
+    throw new Error(`Pageviews file [${pageviewsFile}] does not exist.`);
+  }
+}
+
+export function sanitize_articleFailureThreshold(articleFailureThreshold: any) {
+  if (articleFailureThreshold !== undefined && !(Number(articleFailureThreshold) >= 0 && Number(articleFailureThreshold) <= 1)) {
+    throw new Error(`Article failure threshold [${articleFailureThreshold}] is not valid, use a number between 0 and 1.`);
+  }
+}
+
+export function sanitize_customZimMetadata({ customZimTitle, customZimDescription, customZimLongDescription }: any) {
+  const customMetadata: KVS<string> = { Title: customZimTitle, Description: customZimDescription, LongDescription: customZimLongDescription };
+  for (const [name, value] of Object.entries(customMetadata)) {
+    if (value !== undefined && Array.from(String(value)).length > ZIM_METADATA_MAX_LENGTHS[name]) {
+      throw new Error(`Custom ZIM ${name.toLowerCase()} is longer than [${ZIM_METADATA_MAX_LENGTHS[name]}] characters`);
+    }
+  }
+  if (customZimLongDescription && customZimDescription && String(customZimLongDescription).length <= String(customZimDescription).length) {
+    throw new Error('Custom ZIM long description has to be longer than the description');
+  }
+}
+
+export function sanitize_variant(variant: any, filenamePrefix: string) {
+  if (!variant) {
+    return;
+  }
+  const variants = String(variant).split(',').filter((a) => a);
+  const invalidVariant = variants.find((v) => !/^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(v));
+  if (invalidVariant) {
+    throw new Error(`Language variant [${invalidVariant}] is not valid, use e.g. zh-hans`);
+  }
+  if (filenamePrefix && variants.length > 1) {
+    throw new Error('Several language variants need distinct filenames, they can not be used with --filenamePrefix');
+  }
+}
+
+export function sanitize_zimValidation({ validateZim, outputFormat, brokenLinkThreshold, missingMediaThreshold, danglingRedirectThreshold }: any) {
+  const thresholds: KVS<any> = { brokenLinkThreshold, missingMediaThreshold, danglingRedirectThreshold };
+  for (const [name, threshold] of Object.entries(thresholds)) {
+    if (threshold !== undefined && !(Number(threshold) >= 0 && Number(threshold) <= 1)) {
+      throw new Error(`Threshold --${name} [${threshold}] is not valid, use a number between 0 and 1.`);
+    }
+    if (threshold !== undefined && !validateZim) {
+      throw new Error(`--${name} needs --validateZim`);
+    }
+  }
+  if (validateZim && outputFormat && outputFormat !== 'zim') {
+    throw new Error(`--validateZim only works with the ZIM output format, not [${outputFormat}]`);
+  }
+}
+
+export function sanitize_avif(avif: any, avifQuality: any, webp: any) {
+  if (avif && webp) {
+    throw new Error('--avif and --webp can not be used together');
+  }
+  if (avifQuality !== undefined && !(Number.isInteger(Number(avifQuality)) && Number(avifQuality) >= 1 && Number(avifQuality) <= 100)) {
+    throw new Error(`AVIF quality [${avifQuality}] is not valid, use a number between 1 and 100.`);
+  }
+  if (avifQuality !== undefined && !avif) {
+    throw new Error('--avifQuality needs --avif');
+  }
+}
+
+export function sanitize_metrics(metricsPort: any, metricsHost: any) {
+  if (metricsPort !== undefined && !(Number.isInteger(Number(metricsPort)) && Number(metricsPort) >= 1 && Number(metricsPort) <= 65535)) {
+    throw new Error(`Metrics port [${metricsPort}] is not valid, use a port between 1 and 65535.`);
+  }
+  if (metricsHost !== undefined && metricsPort === undefined) {
+    throw new Error('--metricsHost needs --metricsPort');
+  }
+}
+
+export function sanitize_mwOAuth({ mwOAuthConsumerKey, mwOAuthConsumerSecret, mwOAuthAccessToken, mwOAuthAccessSecret }: any) {
+  const oauth1Keys = [mwOAuthConsumerKey, mwOAuthConsumerSecret, mwOAuthAccessSecret];
+  if (oauth1Keys.some((key) => key) && (!oauth1Keys.every((key) => key) || !mwOAuthAccessToken)) {
+    throw new Error('OAuth 1.0a needs --mwOAuthConsumerKey, --mwOAuthConsumerSecret, --mwOAuthAccessToken and --mwOAuthAccessSecret');
+  }
+}
+
+export function sanitize_httpClient({ httpProxy, httpHeader, caBundle }: any) {
+  if (httpProxy) {
+    const proxyUrl = urlParser.parse(String(httpProxy));
+    if (!['http:', 'https:'].includes(proxyUrl.protocol) || !proxyUrl.hostname) {
+      throw new Error(`HTTP proxy [${httpProxy}] is not valid, use e.g. http://proxy.example.org:3128`);
+    }
+  }
+  if (caBundle && !fs.existsSync(caBundle)) {
+    throw new Error(`CA bundle [${caBundle}] does not exist`);
+  }
+  parseHeaders(httpHeader);
+}
+
 export function sanitize_redis(argv:any)
 {
   try {
@@ -107,12 +347,12 @@ export function sanitize_redis(argv:any)
   }
 }
 
-export async function sanitize_customZimFavicon(customZimFavicon:any)
+export async function sanitize_customZimFavicon(customZimFavicon:any, httpClient: AxiosInstance = axios)
 {
   const faviconIsRemote = customZimFavicon.includes('http');
     if (faviconIsRemote) {
       // make a download to check custom favicon link is valid
-      await axios
+      await httpClient
         .get(customZimFavicon)
         .catch((err) => {
           throw new Error(
@@ -149,4 +389,13 @@ export function sanitize_customFlavour(customFlavour: string): string {
   ].find(function(possiblePath) {
     return fs.existsSync(possiblePath)
   }) || null;
-}
\ No newline at end of file
+}
+export function sanitize_previousZim(previousZim: string, format: string | string[]) {
+  if (!fs.existsSync(previousZim)) {
+    throw new Error(`Previous ZIM [${previousZim}] does not exist.`);
+  }
+  const formats = [].concat(format || []);
+  if (!fs.statSync(previousZim).isDirectory() && formats.length > 1) {
+    throw new Error(`Previous ZIM [${previousZim}] is a file but several formats are requested, use a directory instead.`);
+  }
+}
@@ -1,8 +1,9 @@
-import { RedisKvs } from './util/RedisKvs';
-import { RedisClient } from 'redis';
+import type { Kvs, KvsFactory } from './util/Kvs';
 
-export function populateFilesToDownload(redisClient: RedisClient) {
-    filesToDownloadXPath = new RedisKvs(redisClient, `${Date.now()}-media`, {
+// Stores are named after a prefix which defaults to the current timestamp,
+// --checkpoint and --resume use a stable prefix instead so a restarted scrape finds them again
+export function populateFilesToDownload(createKvs: KvsFactory, prefix = String(Date.now())) {
+    filesToDownloadXPath = createKvs(`${prefix}-media`, {
         u: 'url',
         n: 'namespace',
         m: 'mult',
@@ -10,10 +11,10 @@ export function populateFilesToDownload(redisClient: RedisClient) {
     });
 }
 
-export let filesToDownloadXPath: RedisKvs<{ url: string, namespace?: string, mult?: number, width?: number }>;
+export let filesToDownloadXPath: Kvs<{ url: string, namespace?: string, mult?: number, width?: number }>;
 
-export function populateFilesToRetry(redisClient: RedisClient) {
-    filesToRetryXPath = new RedisKvs(redisClient, `${Date.now()}-media-retry`, {
+export function populateFilesToRetry(createKvs: KvsFactory, prefix = String(Date.now())) {
+    filesToRetryXPath = createKvs(`${prefix}-media-retry`, {
         u: 'url',
         n: 'namespace',
         m: 'mult',
@@ -21,10 +22,20 @@ export function populateFilesToRetry(redisClient: RedisClient) {
     });
 }
 
-export let filesToRetryXPath: RedisKvs<{ url: string, namespace?: string, mult?: number, width?: number }>;
+export let filesToRetryXPath: Kvs<{ url: string, namespace?: string, mult?: number, width?: number }>;
 
-export function populateArticleDetail(redisClient: RedisClient) {
-    articleDetailXId = new RedisKvs(redisClient, `${Date.now()}-detail`, {
+export function populateArticlesToRetry(createKvs: KvsFactory, prefix = String(Date.now())) {
+    articlesToRetryXId = createKvs(`${prefix}-article-retry`, {
+        a: 'attempts',
+        r: 'reason',
+        p: 'permanent',
+    });
+}
+
+export let articlesToRetryXId: Kvs<{ attempts: number, reason: string, permanent?: boolean }>;
+
+export function populateArticleDetail(createKvs: KvsFactory, prefix = String(Date.now())) {
+    articleDetailXId = createKvs(`${prefix}-detail`, {
         s: 'subCategories',
         c: 'categories',
         p: 'pages',
@@ -38,13 +49,19 @@ export function populateArticleDetail(redisClient: RedisClient) {
     });
 }
 
-export let articleDetailXId: RedisKvs<ArticleDetail>;
+export let articleDetailXId: Kvs<ArticleDetail>;
 
-export function populateRedirects(redisClient: RedisClient) {
-    redirectsXId = new RedisKvs(redisClient, `${Date.now()}-redirect`, {
+export function populateRedirects(createKvs: KvsFactory, prefix = String(Date.now())) {
+    redirectsXId = createKvs(`${prefix}-redirect`, {
         t: 'targetId',
         n: 'title',
     });
 }
 
-export let redirectsXId: RedisKvs<{ targetId: string, title: string }>;
+export let redirectsXId: Kvs<{ targetId: string, title: string }>;
+
+export function populateRunState(createKvs: KvsFactory, prefix = String(Date.now())) {
+    runStateXKey = createKvs(`${prefix}-state`);
+}
+
+export let runStateXKey: Kvs<boolean>;
@@ -36,6 +36,7 @@ type ArticleDetail = PageInfo & {
   nextArticleId?: string,
   prevArticleId?: string,
   missing?: string,
+  unmirroredLinks?: string[], // Titles of the removed links, to know if the article can be reused later
 };
 
 type QueryCategoriesRet = PageInfo[];
@@ -122,6 +123,10 @@ interface MWMetaData {
   creator: string;
   mainPage: string;
   textDir: TextDirection;
+  /* Language variants the wiki can convert its content to, e.g. zh-hans and zh-hant */
+  variants: string[];
+  /* Of the content of the wiki, e.g. Creative Commons Attribution-Share Alike 3.0 */
+  license?: string;
 
   baseUrl: string;
   wikiPath: string;
@@ -151,6 +156,7 @@ interface MWConfig {
   domain?: string;
   username?: string;
   password?: string;
+  oauth?: import('./util/mwAuth').MwOAuthCredentials;
   modulePath?: string;
   getCategories?: boolean;
 }
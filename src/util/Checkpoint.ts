@@ -0,0 +1,229 @@
+import fs from 'fs';
+import md5 from 'md5';
+import rimraf from 'rimraf';
+import readline from 'readline';
+import * as pathParser from 'path';
+import { ZimArticle } from '@openzim/libzim';
+import logger from '../Logger';
+import { mkdirPromise } from './misc';
+import type { OutputWriter } from './OutputWriter';
+
+
+interface CheckpointMeta {
+  filenameDate: string;
+}
+
+export interface ZimArticleOpts {
+  url: string;
+  ns: string;
+  data: string | Buffer;
+  title?: string;
+  mimeType?: string;
+  shouldIndex?: boolean;
+}
+
+type JournalEntry =
+  { type: 'article', articleId: string, url: string, ns: string, title?: string, mimeType?: string, shouldIndex?: boolean }
+  | { type: 'articleDone', articleId: string }
+  | { type: 'articleFailed', articleId: string }
+  | { type: 'file', key: string, url: string, ns: string, mimeType?: string }
+  | { type: 'fileFailed', key: string }
+  | { type: 'module', moduleType: 'js' | 'css', name: string }
+  | { type: 'jsConfigVars', value: string };
+
+
+/*
+ * On-disk journal of what a dump has already written to its ZIM file.
+ * Every article and media added to the ZimCreator is also stored here
+ * (content + properties), so a crashed scrape can be restarted with
+ * --resume: the journaled items are replayed into a new ZimCreator and
+ * only the missing ones are downloaded again.
+ * These copies take about as much disk space as the ZIM file itself
+ * until the dump is finished and the checkpoint is discarded, so it is
+ * only kept with --checkpoint (or when resuming a scrape).
+ */
+export class Checkpoint {
+  public readonly dir: string;
+  public readonly isResumed: boolean;
+  public readonly jsModules = new Set<string>();
+  public readonly cssModules = new Set<string>();
+  public jsConfigVars = '';
+
+  private meta: CheckpointMeta;
+  private entries: JournalEntry[] = [];
+  private readonly doneArticleIds = new Set<string>();
+  private readonly failedArticleIds = new Set<string>();
+  private readonly zimUrls = new Set<string>();
+  private readonly fileKeys = new Set<string>();
+  private readonly failedFileKeys = new Set<string>();
+
+  private constructor(dir: string, isResumed: boolean, meta: CheckpointMeta) {
+    this.dir = dir;
+    this.isResumed = isResumed;
+    this.meta = meta;
+  }
+
+  public static exists(dir: string) {
+    return fs.existsSync(pathParser.join(dir, 'meta.json'));
+  }
+
+  public static async open(dir: string, meta: CheckpointMeta): Promise<Checkpoint> {
+    if (Checkpoint.exists(dir)) {
+      const existingMeta = JSON.parse(await fs.promises.readFile(pathParser.join(dir, 'meta.json'), 'utf8'));
+      const checkpoint = new Checkpoint(dir, true, existingMeta);
+      await checkpoint.load();
+      logger.log(`Resuming from checkpoint [${dir}] with [${checkpoint.doneArticleIds.size}] articles and [${checkpoint.fileKeys.size}] files already done`);
+      return checkpoint;
+    }
+
+    await mkdirPromise(pathParser.join(dir, 'blobs'));
+    await fs.promises.writeFile(pathParser.join(dir, 'meta.json'), JSON.stringify(meta));
+    logger.log(`Created checkpoint [${dir}]`);
+    return new Checkpoint(dir, false, meta);
+  }
+
+  public get filenameDate() {
+    return this.meta.filenameDate;
+  }
+
+  public isArticleDone(articleId: string) {
+    return this.doneArticleIds.has(articleId) || this.failedArticleIds.has(articleId);
+  }
+
+  public isZimArticleWritten(ns: string, url: string) {
+    return this.zimUrls.has(`${ns}/${url}`);
+  }
+
+  public isFileDone(key: string) {
+    return this.fileKeys.has(key) || this.failedFileKeys.has(key);
+  }
+
+  public async recordArticle(articleId: string, { data, ...props }: ZimArticleOpts) {
+    await this.writeBlob(props.ns, props.url, data);
+    await this.append({ type: 'article', articleId, ...props });
+  }
+
+  public async markArticleDone(articleId: string) {
+    await this.append({ type: 'articleDone', articleId });
+  }
+
+  public async markArticleFailed(articleId: string) {
+    await this.append({ type: 'articleFailed', articleId });
+  }
+
+  public async recordFile(key: string, { data, url, ns, mimeType }: ZimArticleOpts) {
+    await this.writeBlob(ns, url, data);
+    await this.append({ type: 'file', key, url, ns, mimeType });
+  }
+
+  public async markFileFailed(key: string) {
+    await this.append({ type: 'fileFailed', key });
+  }
+
+  public async recordModule(moduleType: 'js' | 'css', name: string) {
+    await this.append({ type: 'module', moduleType, name });
+  }
+
+  public async recordJsConfigVars(value: string) {
+    await this.append({ type: 'jsConfigVars', value });
+  }
+
+  /* Add all journaled articles and files to a new ZIM and restore the dump counters */
+  public async replay(zimCreator: OutputWriter, status: { articles: { success: number, fail: number }, files: { success: number, fail: number } }) {
+    logger.log(`Replaying [${this.entries.length}] checkpoint entries`);
+    for (const entry of this.entries) {
+      if (entry.type === 'article' || entry.type === 'file') {
+        const { type, ...props } = entry;
+        const data = await fs.promises.readFile(this.blobPath(entry.ns, entry.url));
+        await zimCreator.addArticle(new ZimArticle({ ...props, data }));
+        if (type === 'article') {
+          status.articles.success += 1;
+        } else {
+          status.files.success += 1;
+        }
+      }
+    }
+    status.articles.fail += this.failedArticleIds.size;
+    status.files.fail += this.failedFileKeys.size;
+  }
+
+  public static discard(dir: string) {
+    logger.log(`Deleting checkpoint [${dir}]`);
+    rimraf.sync(dir);
+  }
+
+  public discard() {
+    Checkpoint.discard(this.dir);
+  }
+
+  private async load() {
+    const journalPath = this.journalPath();
+    if (!fs.existsSync(journalPath)) {
+      return;
+    }
+    const input = fs.createReadStream(journalPath);
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    await new Promise((resolve, reject) => {
+      lines.on('line', (line: string) => {
+        if (!line) return;
+        try {
+          this.index(JSON.parse(line));
+        } catch (err) {
+          // Last line might be truncated if the process died while writing it
+          logger.warn(`Ignoring corrupted checkpoint entry [${line}]`);
+        }
+      });
+      lines.on('close', resolve);
+      input.on('error', reject);
+    });
+  }
+
+  private index(entry: JournalEntry) {
+    switch (entry.type) {
+      case 'article':
+        if (this.zimUrls.has(`${entry.ns}/${entry.url}`)) return;
+        this.zimUrls.add(`${entry.ns}/${entry.url}`);
+        break;
+      case 'articleDone':
+        this.doneArticleIds.add(entry.articleId);
+        break;
+      case 'articleFailed':
+        this.failedArticleIds.add(entry.articleId);
+        break;
+      case 'file':
+        if (this.fileKeys.has(entry.key)) return;
+        this.fileKeys.add(entry.key);
+        break;
+      case 'fileFailed':
+        this.failedFileKeys.add(entry.key);
+        break;
+      case 'module':
+        (entry.moduleType === 'js' ? this.jsModules : this.cssModules).add(entry.name);
+        break;
+      case 'jsConfigVars':
+        this.jsConfigVars = entry.value;
+        break;
+    }
+    this.entries.push(entry);
+  }
+
+  private async append(entry: JournalEntry) {
+    await fs.promises.appendFile(this.journalPath(), JSON.stringify(entry) + '\n');
+    this.index(entry);
+  }
+
+  private async writeBlob(ns: string, url: string, data: string | Buffer) {
+    const blobPath = this.blobPath(ns, url);
+    await mkdirPromise(pathParser.dirname(blobPath));
+    await fs.promises.writeFile(blobPath, data);
+  }
+
+  private blobPath(ns: string, url: string) {
+    const hash = md5(`${ns}/${url}`);
+    return pathParser.join(this.dir, 'blobs', hash.substr(0, 2), hash);
+  }
+
+  private journalPath() {
+    return pathParser.join(this.dir, 'journal.jsonl');
+  }
+}
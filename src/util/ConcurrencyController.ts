@@ -0,0 +1,129 @@
+import logger from '../Logger';
+
+
+/* Limit kept after an overload signal */
+const DECREASE_FACTOR = 0.5;
+
+/* Pause of the requests on an overload without Retry-After header, in milliseconds */
+export const DEFAULT_PAUSE = 5 * 1000;
+
+/* Overload signals closer than this are the same overload, e.g. all the requests in flight getting a 429 */
+const DECREASE_INTERVAL = 1000;
+
+export interface ConcurrencyControllerOpts {
+  name: string;
+  max: number;
+  min?: number;
+  initial?: number;
+}
+
+
+/*
+ * Limits the number of requests in flight to a server, the limit adapts to
+ * how the server copes (AIMD): it grows by one request per round of
+ * successful requests and is halved when the server signals an overload
+ * (HTTP 429/503, MediaWiki maxlag). The server can also ask to wait, with
+ * a Retry-After header. Waiting requests are woken up in order, no polling.
+ */
+export class ConcurrencyController {
+  public readonly name: string;
+  public readonly max: number;
+  public readonly min: number;
+
+  private limit: number;
+  private active = 0;
+  private pausedUntil = 0;
+  private lastDecrease = 0;
+  private resumeTimer: NodeJS.Timeout;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor({ name, max, min = 1, initial }: ConcurrencyControllerOpts) {
+    this.name = name;
+    this.max = Math.max(max, min);
+    this.min = min;
+    this.limit = Math.min(Math.max(initial || min, min), this.max);
+  }
+
+  public get currentLimit() {
+    return Math.floor(this.limit);
+  }
+
+  public get activeRequests() {
+    return this.active;
+  }
+
+  public get waitingRequests() {
+    return this.waiting.length;
+  }
+
+  public async acquire(): Promise<void> {
+    if (!this.waiting.length && this.canStart()) {
+      this.active += 1;
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.waiting.push(resolve);
+    });
+  }
+
+  /* Ends a request, overloaded if the server signaled it is overloaded */
+  public release(overloaded = false) {
+    this.active -= 1;
+    if (overloaded) {
+      this.decrease();
+    } else if (this.limit < this.max) {
+      this.limit = Math.min(this.limit + 1 / this.limit, this.max);
+    }
+    this.wakeUp();
+  }
+
+  /* No request is started for this long, e.g. for a Retry-After header */
+  public pause(ms: number) {
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) {
+      return;
+    }
+    logger.log(`Pausing requests to [${this.name}] for [${Math.ceil(ms / 1000)}s]`);
+    this.pausedUntil = until;
+    clearTimeout(this.resumeTimer);
+    this.resumeTimer = setTimeout(() => this.wakeUp(), ms);
+  }
+
+  private decrease() {
+    const now = Date.now();
+    if (now - this.lastDecrease < DECREASE_INTERVAL) {
+      return;
+    }
+    this.lastDecrease = now;
+    const newLimit = Math.max(this.limit * DECREASE_FACTOR, this.min);
+    if (Math.floor(newLimit) < this.currentLimit) {
+      logger.log(`Server [${this.name}] is overloaded, reducing parallel requests from [${this.currentLimit}] to [${Math.floor(newLimit)}]`);
+    }
+    this.limit = newLimit;
+  }
+
+  private canStart() {
+    return this.active < this.currentLimit && Date.now() >= this.pausedUntil;
+  }
+
+  private wakeUp() {
+    while (this.waiting.length && this.canStart()) {
+      this.active += 1;
+      this.waiting.shift()();
+    }
+  }
+}
+
+
+/* Milliseconds to wait from a Retry-After header, in seconds or as an HTTP date */
+export function parseRetryAfter(value: string, now = Date.now()): number {
+  if (!value) {
+    return 0;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? 0 : Math.max(date - now, 0);
+}
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import rimraf from 'rimraf';
+import * as pathParser from 'path';
+import type { ZimArticle } from '@openzim/libzim';
+import logger from '../Logger';
+import type { OutputWriter } from './OutputWriter';
+import { MIME_TYPES_BY_EXTENSION } from './const';
+
+
+interface DirectoryWriterOpts {
+  dir: string;
+  welcome: string;
+}
+
+interface PendingFile {
+  url: string;
+  data: string | Buffer;
+  isHtml: boolean;
+}
+
+
+/*
+ * Writes the content of a dump as a static tree of files, with the same
+ * layout as the ZIM namespaces (A/London, I/m/London.jpg, -/s/style.css...)
+ * so the relative links of the articles keep working. Files have no
+ * extension, like ZIM urls: the web server must serve the A/ ones as
+ * text/html. Redirects are small HTML pages and the metadata are written
+ * in M/.
+ * A/Foo and A/Foo/Bar can both exist: A/Foo is then written as
+ * A/Foo/index.html, with its relative links one level deeper. Whether a
+ * url is a file or a directory is decided synchronously when it is added,
+ * files which turn out to have children are moved in finalise().
+ */
+export class DirectoryWriter implements OutputWriter {
+  public readonly dir: string;
+
+  private readonly welcome: string;
+  private readonly pendingWrites = new Set<Promise<void>>();
+  /* Number of entries by mime type, for the Counter metadata like in a ZIM */
+  private readonly counter: KVS<number> = {};
+  /* Urls written as files (true if HTML) and urls of the directories */
+  private readonly files = new Map<string, boolean>();
+  private readonly dirs = new Set<string>();
+  /* Files added under another file, kept until finalise() moves the latter */
+  private deferredFiles: PendingFile[] = [];
+  private error: Error;
+
+  constructor({ dir, welcome }: DirectoryWriterOpts, metadata: KVS<string> = {}) {
+    this.dir = pathParser.resolve(dir);
+    this.welcome = welcome;
+    // A resumed dump adds all its entries again, and leftovers would collide with them
+    rimraf.sync(this.dir);
+    this.setMetadata(metadata);
+  }
+
+  public addArticle(article: typeof ZimArticle) {
+    const { ns, url } = article;
+    if (!article.redirectUrl) {
+      const extension = pathParser.extname(url || '').substr(1).toLowerCase();
+      const mimeType = article.mimeType || MIME_TYPES_BY_EXTENSION[extension] || 'application/octet-stream';
+      this.counter[mimeType] = (this.counter[mimeType] || 0) + 1;
+    }
+    const data = article.redirectUrl
+      ? this.redirectPage(url, article.redirectUrl)
+      : article.bufferData;
+    const isHtml = !!article.redirectUrl || article.mimeType === 'text/html';
+    return this.write(`${ns}/${url}`, data, isHtml);
+  }
+
+  public async setMetadata(metadata: KVS<string>) {
+    for (const [name, value] of Object.entries(metadata)) {
+      if (value !== undefined) {
+        this.write(`M/${name}`, String(value));
+      }
+    }
+  }
+
+  public async finalise() {
+    this.write('M/Counter', Object.entries(this.counter).map(([mimeType, count]) => `${mimeType}=${count}`).join(';'));
+    this.write('index.html', this.redirectPage('index.html', `A/${this.welcome}`, ''), true);
+    await this.flush();
+    while (this.deferredFiles.length && !this.error) {
+      const deferredFiles = this.deferredFiles;
+      this.deferredFiles = [];
+      for (const { url } of deferredFiles) {
+        for (const parent of this.parentUrls(url)) {
+          if (this.files.has(parent)) {
+            await this.moveToIndex(parent);
+          }
+        }
+      }
+      for (const { url, data, isHtml } of deferredFiles) {
+        this.write(url, data, isHtml);
+      }
+      await this.flush();
+    }
+    if (this.error) {
+      throw this.error;
+    }
+    logger.log(`Wrote directory [${this.dir}]`);
+  }
+
+  private async flush() {
+    while (this.pendingWrites.size) {
+      await Promise.all(Array.from(this.pendingWrites));
+    }
+  }
+
+  /* Writes are tracked to be awaited in finalise(), callers don't always await addArticle() */
+  private write(url: string, data: string | Buffer, isHtml = false) {
+    const parentUrls = this.parentUrls(url);
+    if (parentUrls.some((parent) => this.files.has(parent))) {
+      this.deferredFiles.push({ url, data, isHtml });
+      return Promise.resolve();
+    }
+    parentUrls.forEach((parent) => this.dirs.add(parent));
+    const isIndex = this.dirs.has(url);
+    if (!isIndex) {
+      this.files.set(url, isHtml);
+    }
+    const promise = this.writeFile(isIndex ? `${url}/index.html` : url, isIndex && isHtml ? deepenRelativeLinks(data.toString()) : data)
+      .catch((err) => {
+        logger.warn(`Failed to write [${url}] to [${this.dir}]`, err);
+        this.error = this.error || err;
+      })
+      .then(() => {
+        this.pendingWrites.delete(promise);
+      });
+    this.pendingWrites.add(promise);
+    return promise;
+  }
+
+  private async writeFile(url: string, data: string | Buffer) {
+    const filePath = this.resolve(url);
+    await fs.promises.mkdir(pathParser.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  /* Only called from finalise(), once no other write is pending */
+  private async moveToIndex(url: string) {
+    const isHtml = this.files.get(url);
+    this.files.delete(url);
+    this.dirs.add(url);
+    const filePath = this.resolve(url);
+    const tmpPath = `${filePath}.${Date.now()}`;
+    await fs.promises.rename(filePath, tmpPath);
+    await fs.promises.mkdir(filePath);
+    const indexPath = pathParser.join(filePath, 'index.html');
+    if (isHtml) {
+      await fs.promises.writeFile(indexPath, deepenRelativeLinks(await fs.promises.readFile(tmpPath, 'utf8')));
+      await fs.promises.unlink(tmpPath);
+    } else {
+      await fs.promises.rename(tmpPath, indexPath);
+    }
+  }
+
+  private resolve(url: string) {
+    const filePath = pathParser.resolve(this.dir, url);
+    if (!filePath.startsWith(this.dir + pathParser.sep)) {
+      throw new Error(`[${url}] is outside of the output directory`);
+    }
+    return filePath;
+  }
+
+  /* A/Foo/Bar -> [A, A/Foo] */
+  private parentUrls(url: string) {
+    const parts = url.split('/');
+    return parts.slice(1).map((part, i) => parts.slice(0, i + 1).join('/'));
+  }
+
+  private redirectPage(url: string, redirectUrl: string, upStr = '../'.repeat(url.split('/').length)) {
+    // redirectUrl is either an article id or a full "<ns>/<url>" ZIM url
+    const target = /^[A-Z\-]\//.test(redirectUrl) ? redirectUrl : `A/${redirectUrl}`;
+    const href = upStr + target.split('/').map(encodeURIComponent).join('/');
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta http-equiv="refresh" content="0;url=${href}"></head>`
+      + `<body><a href="${href}">${href}</a></body></html>`;
+  }
+}
+
+/* Links of a page written as <url>/index.html are one directory deeper than at <url> */
+function deepenRelativeLinks(html: string) {
+  const deepen = (link: string) => /^([a-z][a-z0-9+.\-]*:|\/|#|$)/i.test(link) ? link : `../${link.replace(/^\.\//, '')}`;
+  return html
+    .replace(/(\s(?:href|src)=")([^"]*)"/g, (all, attr, link) => `${attr}${deepen(link)}"`)
+    .replace(/(\ssrcset=")([^"]*)"/g, (all, attr, srcset: string) => attr + srcset.split(',').map((candidate) => candidate.replace(/^(\s*)(\S+)/, (match, space, link) => space + deepen(link))).join(',') + '"')
+    .replace(/(\scontent="\d+;url=)([^"]*)"/g, (all, attr, link) => `${attr}${deepen(link)}"`);
+}
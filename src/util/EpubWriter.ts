@@ -0,0 +1,333 @@
+import fs from 'fs';
+import md5 from 'md5';
+import JSZip from 'jszip';
+import domino from 'domino';
+import * as pathParser from 'path';
+import type { ZimArticle } from '@openzim/libzim';
+import logger from '../Logger';
+import { config } from '../config';
+import { MIME_TYPES_BY_EXTENSION } from './const';
+import type { OutputWriter } from './OutputWriter';
+
+
+interface EpubWriterOpts {
+  fileName: string;
+  /* Article ids in reading order, the ones of --articleList */
+  articleIds: string[];
+  /* BCP 47 language tag of the book */
+  language: string;
+}
+
+interface EpubResource {
+  zimUrl: string;
+  href: string;
+  mediaType: string;
+  data: Buffer;
+}
+
+/* Stylesheet built by getAndProcessStylesheets(), added to every chapter */
+const WIKI_STYLESHEET_URL = '-/style.css';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+/* Elements which make no sense (or are not allowed) in an EPUB content document */
+const REMOVED_ELEMENTS = ['script', 'noscript', 'iframe', 'object', 'embed', 'form', 'input', 'button', 'select', 'textarea'];
+
+/* Dummy base to resolve the relative urls of the articles into ZIM urls */
+const ZIM_BASE_URL = 'http://zim/';
+
+
+/*
+ * Writes a dump as an EPUB 3 book, for small --articleList scrapes. Articles
+ * become chapters, ordered like the article list in the navigation document,
+ * and the links between them point to their chapters. Media and stylesheets
+ * are only kept if a chapter uses them. Everything is kept in memory until
+ * finalise(), which builds the book in memory too: the articles and media
+ * have to fit about twice in the heap, so books are limited to a few hundred
+ * articles and about 500MB of media. Media are written with their own media
+ * type, --webp is refused for EPUB as WebP is not an EPUB 3.2 core media type.
+ */
+export class EpubWriter implements OutputWriter {
+  public readonly fileName: string;
+
+  private readonly articleIds: string[];
+  private readonly language: string;
+  private readonly metadata: KVS<string> = {};
+  /* ZIM url -> article or resource, in the order they are added */
+  private readonly items = new Map<string, typeof ZimArticle>();
+  /* Article id -> id of the article it redirects to */
+  private readonly redirects = new Map<string, string>();
+
+  constructor({ fileName, articleIds, language }: EpubWriterOpts, metadata: KVS<string> = {}) {
+    this.fileName = fileName;
+    this.articleIds = articleIds.map((articleId) => articleId.replace(/ /g, '_'));
+    this.language = language;
+    this.setMetadata(metadata);
+  }
+
+  public async addArticle(article: typeof ZimArticle) {
+    if (article.redirectUrl) {
+      const target = String(article.redirectUrl).replace(/^A\//, '');
+      this.redirects.set(article.url, target);
+    } else if (article.ns !== 'M') {
+      this.items.set(`${article.ns}/${article.url}`, article);
+    }
+  }
+
+  public async setMetadata(metadata: KVS<string>) {
+    for (const [name, value] of Object.entries(metadata)) {
+      if (value !== undefined) {
+        this.metadata[name] = String(value);
+      }
+    }
+  }
+
+  public async finalise() {
+    const chapterIds = this.getChapterIds();
+    if (!chapterIds.length) {
+      throw new Error(`No article to write in [${this.fileName}]`);
+    }
+    const chapterHrefs = new Map(chapterIds.map((articleId, index): [string, string] => [articleId, `ch${String(index + 1).padStart(4, '0')}.xhtml`]));
+    const resources = new Map<string, EpubResource>();
+
+    const zip = new JSZip();
+    // Has to be the first entry, not compressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', this.containerXml());
+
+    const chapters = chapterIds.map((articleId) => {
+      const href = chapterHrefs.get(articleId);
+      const article = this.items.get(`A/${articleId}`);
+      const title = article.title || articleId.replace(/_/g, ' ');
+      zip.file(`OEBPS/${href}`, this.chapterXhtml(articleId, title, chapterHrefs, resources));
+      return { articleId, href, title };
+    });
+
+    for (const resource of resources.values()) {
+      zip.file(`OEBPS/${resource.href}`, resource.data);
+    }
+    zip.file('OEBPS/nav.xhtml', this.navXhtml(chapters));
+    zip.file('OEBPS/content.opf', this.packageOpf(chapters, Array.from(resources.values())));
+
+    const content = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+    await fs.promises.writeFile(this.fileName, content);
+    logger.log(`Wrote EPUB [${this.fileName}] with [${chapters.length}] chapters and [${resources.size}] resources`);
+  }
+
+  private resolveRedirect(articleId: string) {
+    const seen = new Set<string>();
+    while (this.redirects.has(articleId) && !seen.has(articleId)) {
+      seen.add(articleId);
+      articleId = this.redirects.get(articleId);
+    }
+    return articleId;
+  }
+
+  /* Articles of the list first, in its order, then the other ones (added namespaces...) */
+  private getChapterIds() {
+    const articleIds = new Set<string>();
+    for (const articleId of this.articleIds) {
+      const targetId = this.resolveRedirect(articleId);
+      if (this.items.has(`A/${targetId}`)) {
+        articleIds.add(targetId);
+      } else {
+        logger.warn(`Article [${articleId}] of the article list has not been scraped, not in the EPUB`);
+      }
+    }
+    for (const [url, article] of this.items) {
+      // The article list main page is replaced by the navigation document
+      if (url.startsWith('A/') && article.url !== 'index' && /html/.test(article.mimeType || '')) {
+        articleIds.add(article.url);
+      }
+    }
+    return Array.from(articleIds);
+  }
+
+  private chapterXhtml(articleId: string, title: string, chapterHrefs: Map<string, string>, resources: Map<string, EpubResource>) {
+    const articleUrl = `${ZIM_BASE_URL}A/${articleId.split('/').map(encodeURIComponent).join('/')}`;
+    const doc = domino.createDocument(this.items.get(`A/${articleId}`).bufferData.toString());
+    const toZimUrl = (url: string) => {
+      try {
+        const resolvedUrl = new URL(url, articleUrl);
+        if (resolvedUrl.origin === new URL(ZIM_BASE_URL).origin) {
+          return { zimUrl: decodeURIComponent(resolvedUrl.pathname.substr(1)), hash: resolvedUrl.hash };
+        }
+      } catch (err) {
+        logger.warn(`Failed to resolve [${url}] in article [${articleId}]`);
+      }
+      return { zimUrl: null as string, hash: '' };
+    };
+
+    for (const node of Array.from(doc.body.querySelectorAll(REMOVED_ELEMENTS.join(',')))) {
+      node.parentNode.removeChild(node);
+    }
+
+    for (const link of Array.from(doc.body.querySelectorAll('a[href]')) as DominoElement[]) {
+      const href = link.getAttribute('href');
+      if (href.startsWith('#')) {
+        continue;
+      }
+      const { zimUrl, hash } = toZimUrl(href);
+      if (!zimUrl) {
+        continue;
+      }
+      const chapterHref = zimUrl.startsWith('A/') && chapterHrefs.get(this.resolveRedirect(zimUrl.substr(2)));
+      if (chapterHref) {
+        link.setAttribute('href', chapterHref + hash);
+      } else {
+        // Not in the book, keep the text only
+        while (link.firstChild) {
+          link.parentNode.insertBefore(link.firstChild, link);
+        }
+        link.parentNode.removeChild(link);
+      }
+    }
+
+    for (const node of Array.from(doc.body.querySelectorAll('img, audio, video, source, track')) as DominoElement[]) {
+      node.removeAttribute('srcset');
+      for (const attribute of ['src', 'poster']) {
+        const value = node.getAttribute(attribute);
+        if (!value) {
+          continue;
+        }
+        const resource = this.getResource(toZimUrl(value).zimUrl, resources);
+        if (resource) {
+          node.setAttribute(attribute, resource.href);
+        } else if (attribute === 'src') {
+          node.parentNode.removeChild(node);
+          break;
+        } else {
+          node.removeAttribute(attribute);
+        }
+      }
+    }
+
+    const stylesheetUrls = [WIKI_STYLESHEET_URL]
+      .concat((Array.from(doc.querySelectorAll('link[rel~="stylesheet"][href]')) as DominoElement[]).map((link) => toZimUrl(link.getAttribute('href')).zimUrl));
+    const stylesheetHrefs = new Set(stylesheetUrls.map((zimUrl) => this.getResource(zimUrl, resources)).filter((resource) => resource).map((resource) => resource.href));
+
+    return '<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n'
+      + `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xmlns:xlink="http://www.w3.org/1999/xlink" xml:lang="${escapeXml(this.language)}" lang="${escapeXml(this.language)}">\n`
+      + `<head>\n<meta charset="utf-8"/>\n<title>${escapeXml(title)}</title>\n`
+      + Array.from(stylesheetHrefs).map((href) => `<link rel="stylesheet" type="text/css" href="${escapeXml(href)}"/>\n`).join('')
+      + '</head>\n'
+      + `<body>\n${Array.from(doc.body.childNodes).map((node) => toXhtml(node)).join('')}\n</body>\n</html>\n`;
+  }
+
+  /* Adds a media or stylesheet to the book, stylesheets come with the media they use */
+  private getResource(zimUrl: string, resources: Map<string, EpubResource>): EpubResource {
+    if (!zimUrl || zimUrl.startsWith('A/')) {
+      return null;
+    }
+    if (resources.has(zimUrl)) {
+      return resources.get(zimUrl);
+    }
+    const item = this.items.get(zimUrl);
+    if (!item) {
+      return null;
+    }
+
+    const extension = pathParser.extname(zimUrl).substr(1).toLowerCase();
+    const mediaType = MIME_TYPES_BY_EXTENSION[extension] || item.mimeType || 'application/octet-stream';
+    const resource: EpubResource = {
+      zimUrl,
+      href: `res/${md5(zimUrl)}${extension ? '.' + extension : ''}`,
+      mediaType,
+      data: item.bufferData,
+    };
+    resources.set(zimUrl, resource);
+
+    if (mediaType === 'text/css') {
+      const cssBase = `${ZIM_BASE_URL}${zimUrl}`;
+      const css = resource.data.toString().replace(/url\((['"]?)([^'")]+)\1\)/gi, (match, quote, url) => {
+        if (url.startsWith('data:')) {
+          return match;
+        }
+        // getAndProcessStylesheets() stores the media of the stylesheets by file name in the style directory
+        const candidates = [new URL(url, cssBase).pathname.substr(1), `-/${config.output.dirs.style}/${pathParser.basename(url)}`];
+        const dependency = candidates.map((candidate) => this.getResource(decodeURIComponent(candidate), resources)).find((res) => res);
+        return dependency ? `url(${quote}${pathParser.basename(dependency.href)}${quote})` : match;
+      });
+      resource.data = Buffer.from(css);
+    }
+    return resource;
+  }
+
+  private containerXml() {
+    return '<?xml version="1.0" encoding="utf-8"?>\n'
+      + '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n'
+      + '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>\n'
+      + '</container>\n';
+  }
+
+  private navXhtml(chapters: Array<{ href: string, title: string }>) {
+    const title = this.metadata.Title || 'Contents';
+    return '<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n'
+      + `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(this.language)}" lang="${escapeXml(this.language)}">\n`
+      + `<head>\n<meta charset="utf-8"/>\n<title>${escapeXml(title)}</title>\n</head>\n`
+      + `<body>\n<nav epub:type="toc" id="toc">\n<h1>${escapeXml(title)}</h1>\n<ol>\n`
+      + chapters.map(({ href, title: chapterTitle }) => `<li><a href="${escapeXml(href)}">${escapeXml(chapterTitle)}</a></li>\n`).join('')
+      + '</ol>\n</nav>\n</body>\n</html>\n';
+  }
+
+  private packageOpf(chapters: Array<{ href: string }>, resources: EpubResource[]) {
+    const { Title, Description, Creator, Publisher, Name } = this.metadata;
+    const identifier = `urn:uuid:${uuidFromHash(md5(`${Name || this.fileName}|${chapters.map(({ href }) => href).join('|')}|${this.metadata.Date || ''}`))}`;
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const dc = (name: string, value: string) => value ? `<dc:${name}>${escapeXml(value)}</dc:${name}>\n` : '';
+
+    return '<?xml version="1.0" encoding="utf-8"?>\n'
+      + '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">\n'
+      + '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n'
+      + `<dc:identifier id="book-id">${identifier}</dc:identifier>\n`
+      + `<dc:title>${escapeXml(Title || Name || pathParser.basename(this.fileName, '.epub'))}</dc:title>\n`
+      + `<dc:language>${escapeXml(this.language)}</dc:language>\n`
+      + dc('description', Description) + dc('creator', Creator) + dc('publisher', Publisher)
+      + `<meta property="dcterms:modified">${modified}</meta>\n`
+      + '</metadata>\n<manifest>\n'
+      + '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>\n'
+      + chapters.map(({ href }, index) => `<item id="ch${index + 1}" href="${href}" media-type="application/xhtml+xml"/>\n`).join('')
+      + resources.map(({ href, mediaType }, index) => `<item id="res${index + 1}" href="${href}" media-type="${escapeXml(mediaType)}"/>\n`).join('')
+      + '</manifest>\n<spine>\n'
+      + chapters.map((_, index) => `<itemref idref="ch${index + 1}"/>\n`).join('')
+      + '</spine>\n</package>\n';
+  }
+}
+
+function escapeXml(str: string) {
+  return String(str)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function uuidFromHash(hash: string) {
+  return [hash.substr(0, 8), hash.substr(8, 4), `5${hash.substr(13, 3)}`, hash.substr(16, 4), hash.substr(20, 12)].join('-');
+}
+
+/* EPUB content documents are XHTML, domino only serializes HTML */
+function toXhtml(node: DominoElement, parentNamespace = XHTML_NAMESPACE): string {
+  if (node.nodeType === node.TEXT_NODE) {
+    return escapeXml(node.textContent).replace(/&quot;/g, '"');
+  }
+  if (node.nodeType !== node.ELEMENT_NODE) {
+    return '';
+  }
+  // localName keeps the case of the SVG elements (linearGradient...)
+  const { localName, namespaceURI } = node;
+  const attributes = Array.from(node.attributes as Array<{ name: string, value: string }>)
+    // Attributes which are not valid XML names would break the whole chapter
+    .filter(({ name }) => /^([a-z_][\w.-]*|xlink:[a-z]+)$/i.test(name) && name !== 'xmlns')
+    .map(({ name, value }) => ` ${name}="${escapeXml(value)}"`);
+  if (namespaceURI && namespaceURI !== parentNamespace) {
+    attributes.unshift(` xmlns="${namespaceURI}"`);
+  }
+  if (namespaceURI === XHTML_NAMESPACE && VOID_ELEMENTS.includes(localName)) {
+    return `<${localName}${attributes.join('')}/>`;
+  }
+  const children = Array.from(node.childNodes).map((child) => toXhtml(child, namespaceURI)).join('');
+  return `<${localName}${attributes.join('')}>${children}</${localName}>`;
+}
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import md5 from 'md5';
+import * as pathParser from 'path';
+import type { AxiosResponse, ResponseType } from 'axios';
+import { mkdirPromise } from './misc';
+
+
+/* Error code of the requests which are not in the cache in replay mode */
+export const HTTP_CACHE_MISS = 'EHTTPCACHEMISS';
+
+interface HttpCacheEntry {
+  url: string;
+  status: number;
+  headers: KVS<string>;
+  bodyHash: string;
+  /* Time the response was cached, in ms since the epoch */
+  cachedAt?: number;
+}
+
+
+/*
+ * On-disk cache of the HTTP responses, to scrape again without downloading
+ * everything again. Responses are indexed by url and their bodies stored by
+ * content hash. Cached responses are reused as they are while they are fresh
+ * (Cache-Control max-age or Expires headers), then revalidated with their
+ * ETag or Last-Modified headers; in replay mode the network is never used and
+ * requests which are not in the cache fail. Files are written under a
+ * temporary name then renamed, so an interrupted scrape never leaves a
+ * truncated response in the cache.
+ */
+export class HttpCache {
+  public readonly dir: string;
+  public readonly replay: boolean;
+
+  constructor(dir: string, replay = false) {
+    this.dir = dir;
+    this.replay = replay;
+  }
+
+  public static missError(url: string) {
+    const err: any = new Error(`[${url}] is not in the HTTP cache`);
+    err.code = HTTP_CACHE_MISS;
+    return err;
+  }
+
+  public async get(url: string): Promise<{ entry: HttpCacheEntry, body: Buffer }> {
+    try {
+      const entry: HttpCacheEntry = JSON.parse(await fs.promises.readFile(this.entryPath(url), 'utf8'));
+      const body = await fs.promises.readFile(this.bodyPath(entry.bodyHash));
+      return { entry, body };
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /* Headers to send to only download the response again if it has changed */
+  public static revalidationHeaders({ headers }: HttpCacheEntry): KVS<string> {
+    return {
+      ...(headers.etag ? { 'If-None-Match': headers.etag } : {}),
+      ...(headers['last-modified'] ? { 'If-Modified-Since': headers['last-modified'] } : {}),
+    };
+  }
+
+  public static isRevalidable(entry: HttpCacheEntry) {
+    return Object.keys(HttpCache.revalidationHeaders(entry)).length > 0;
+  }
+
+  /* Whether the response can still be used without asking the server, see RFC 7234 section 4.2 */
+  public static isFresh({ headers, cachedAt }: HttpCacheEntry, now = Date.now()) {
+    const cacheControl = String(headers['cache-control'] || '').toLowerCase();
+    if (/(^|,)\s*(no-cache|no-store)\b/.test(cacheControl)) {
+      return false;
+    }
+    const responseTime = cachedAt || Date.parse(headers.date);
+    if (isNaN(responseTime)) {
+      return false;
+    }
+    const maxAge = /(^|,)\s*max-age\s*=\s*"?(\d+)/.exec(cacheControl);
+    let lifetime: number;
+    if (maxAge) {
+      lifetime = Number(maxAge[2]) * 1000;
+    } else if (headers.expires) {
+      // Invalid dates (like "0") mean already expired
+      lifetime = (Date.parse(headers.expires) || 0) - (Date.parse(headers.date) || responseTime);
+    } else {
+      return false;
+    }
+    const age = (Number(headers.age) || 0) * 1000 + now - responseTime;
+    return age < lifetime;
+  }
+
+  public async put(url: string, resp: AxiosResponse) {
+    // Responses opening a session are not reusable
+    if (resp.headers['set-cookie']) {
+      return;
+    }
+    const body = HttpCache.serializeBody(resp.data);
+    const bodyHash = md5(body);
+    const bodyPath = this.bodyPath(bodyHash);
+    if (!fs.existsSync(bodyPath)) {
+      await HttpCache.writeFile(bodyPath, body);
+    }
+    const entry: HttpCacheEntry = { url, status: resp.status, headers: resp.headers, bodyHash, cachedAt: Date.now() };
+    await HttpCache.writeFile(this.entryPath(url), JSON.stringify(entry));
+  }
+
+  /* Build an axios like response from a cached one */
+  public static toResponse({ entry, body }: { entry: HttpCacheEntry, body: Buffer }, responseType: ResponseType, config: any = {}): AxiosResponse {
+    let data: any = body;
+    if (responseType === 'json') {
+      data = JSON.parse(body.toString());
+    } else if (responseType === 'text') {
+      data = body.toString();
+    }
+    return {
+      data,
+      status: entry.status,
+      statusText: 'OK',
+      headers: { ...entry.headers },
+      config: { ...config, url: entry.url },
+    };
+  }
+
+  /* Renaming is atomic, readers see either the previous file or the complete new one */
+  private static async writeFile(path: string, data: Buffer | string) {
+    await mkdirPromise(pathParser.dirname(path));
+    const tmpPath = `${path}.${process.pid}.${Math.random().toString(36).substr(2)}.tmp`;
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, path);
+  }
+
+  private static serializeBody(data: any): Buffer {
+    if (Buffer.isBuffer(data)) {
+      return data;
+    }
+    return Buffer.from(typeof data === 'string' ? data : JSON.stringify(data));
+  }
+
+  private entryPath(url: string) {
+    const hash = md5(url);
+    return pathParser.join(this.dir, 'entries', hash.substr(0, 2), `${hash}.json`);
+  }
+
+  private bodyPath(bodyHash: string) {
+    return pathParser.join(this.dir, 'bodies', bodyHash.substr(0, 2), bodyHash);
+  }
+}
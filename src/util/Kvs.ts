@@ -0,0 +1,24 @@
+/*
+ * Key-value store holding the scrape state (articles, redirects, files to
+ * download...). Values are JSON serializable objects, keys are strings.
+ */
+export interface Kvs<T> {
+  get(prop: string): Promise<T>;
+  getMany(prop: string[]): Promise<KVS<T>>;
+  exists(prop: string[]): Promise<{ [key: string]: number }>;
+  set(prop: string, val: T): Promise<any>;
+  setMany(val: KVS<T>): Promise<any>;
+  delete(prop: string): Promise<any>;
+  deleteMany(prop: string[]): Promise<any>;
+  keys(): Promise<string[]>;
+  len(): Promise<number>;
+  iterateItems(numWorkers: number, func: (items: KVS<T>, workerId: number) => Promise<void>): Promise<void>;
+  flush(): Promise<void>;
+}
+
+/* Creates the store named dbName, keyMapping shortens the property names of the values if the backend serializes them */
+export type KvsFactory = <T>(dbName: string, keyMapping?: { [key: string]: string }) => Kvs<T>;
+
+export type KvsBackend = 'redis' | 'memory';
+
+export const kvsBackends: KvsBackend[] = ['redis', 'memory'];
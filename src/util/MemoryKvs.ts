@@ -0,0 +1,130 @@
+import pmap from 'p-map';
+import logger from '../Logger';
+import type { Kvs, KvsFactory } from './Kvs';
+
+
+/* Stores of the same name share their content, like Redis hashes do */
+const databases = new Map<string, Map<string, string>>();
+
+/* Number of items handed to a worker at once, same as the default COUNT of HSCAN */
+const BATCH_SIZE = 10;
+
+/* Number of items of a store above which it is worth using Redis instead */
+export const LARGE_STORE_SIZE = 100000;
+
+/* Stores which have already been reported as too large */
+const largeDatabases = new Set<string>();
+
+
+/*
+ * In-process implementation of Kvs, nothing to set up but everything
+ * is lost when the process exits and all items have to fit in memory.
+ * Values are kept serialized so callers never share object references,
+ * as with Redis. Only meant for tests and small scrapes (--articleList...),
+ * a warning is printed once a store gets larger than largeStoreSize items.
+ */
+export class MemoryKvs<T> implements Kvs<T> {
+  private readonly dbName: string;
+  private readonly largeStoreSize: number;
+
+  constructor(dbName: string, largeStoreSize = LARGE_STORE_SIZE) {
+    this.dbName = dbName;
+    this.largeStoreSize = largeStoreSize;
+  }
+
+  private get db() {
+    if (!databases.has(this.dbName)) {
+      databases.set(this.dbName, new Map());
+    }
+    return databases.get(this.dbName);
+  }
+
+  public async get(prop: string): Promise<T> {
+    return this.parse(this.db.get(prop));
+  }
+
+  public async getMany(prop: string[]): Promise<KVS<T>> {
+    return prop.reduce((acc, key) => {
+      acc[key] = this.parse(this.db.get(key));
+      return acc;
+    }, {} as KVS<T>);
+  }
+
+  public async exists(prop: string[]): Promise<{ [key: string]: number }> {
+    return prop.reduce((acc, key) => {
+      acc[key] = this.db.has(key) ? 1 : 0;
+      return acc;
+    }, {} as { [key: string]: number });
+  }
+
+  public async set(prop: string, val: T) {
+    const isNew = !this.db.has(prop);
+    this.db.set(prop, JSON.stringify(val));
+    this.checkSize();
+    return isNew ? 1 : 0;
+  }
+
+  public async setMany(val: KVS<T>) {
+    for (const [key, value] of Object.entries(val)) {
+      this.db.set(key, JSON.stringify(value));
+    }
+    this.checkSize();
+    return 'OK';
+  }
+
+  public async delete(prop: string) {
+    return this.db.delete(prop) ? 1 : 0;
+  }
+
+  public async deleteMany(prop: string[]) {
+    return prop.filter((key) => this.db.delete(key)).length;
+  }
+
+  public async keys() {
+    return Array.from(this.db.keys());
+  }
+
+  public async len() {
+    return this.db.size;
+  }
+
+  public async iterateItems(numWorkers: number, func: (items: KVS<T>, workerId: number) => Promise<void>) {
+    // Like HSCAN, items added during the iteration might not be visited
+    const keys = Array.from(this.db.keys());
+    const workers = Array.from(Array(numWorkers).keys());
+
+    await pmap(
+      workers,
+      async (workerId) => {
+        while (keys.length) {
+          const items: KVS<T> = {};
+          for (const key of keys.splice(0, BATCH_SIZE)) {
+            if (this.db.has(key)) {
+              items[key] = this.parse(this.db.get(key));
+            }
+          }
+          await func(items, workerId);
+        }
+      },
+      { concurrency: numWorkers },
+    );
+  }
+
+  public async flush() {
+    databases.delete(this.dbName);
+    largeDatabases.delete(this.dbName);
+  }
+
+  private checkSize() {
+    if (this.db.size > this.largeStoreSize && !largeDatabases.has(this.dbName)) {
+      largeDatabases.add(this.dbName);
+      logger.log(`Store [${this.dbName}] has more than [${this.largeStoreSize}] items in memory, use --kvs=redis for large scrapes`);
+    }
+  }
+
+  private parse(val: string): T {
+    return val === undefined ? null : JSON.parse(val);
+  }
+}
+
+export const memoryKvsFactory: KvsFactory = <T>(dbName: string) => new MemoryKvs<T>(dbName);
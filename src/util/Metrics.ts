@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import logger from '../Logger';
+
+type MetricType = 'counter' | 'gauge';
+
+export interface MetricSample {
+  name: string;
+  labels?: KVS<string>;
+  value: number;
+}
+
+/* Samples computed when the metrics are scraped, e.g. from dump.status or the store sizes */
+export type MetricCollector = () => MetricSample[] | Promise<MetricSample[]>;
+
+/* Exposed metrics, in the order of the exposition */
+const METRIC_DEFINITIONS: KVS<{ type: MetricType, help: string }> = {
+  mwoffliner_http_requests_in_flight: { type: 'gauge', help: 'Requests in flight, by server pool' },
+  mwoffliner_http_max_active_requests: { type: 'gauge', help: 'Current limit of the requests in flight, by server pool' },
+  mwoffliner_http_requests_waiting: { type: 'gauge', help: 'Requests waiting for a free slot, by server pool' },
+  mwoffliner_http_requests_total: { type: 'counter', help: 'Finished requests, by host and HTTP status' },
+  mwoffliner_http_downloaded_bytes_total: { type: 'counter', help: 'Bytes of the response bodies, by host' },
+  mwoffliner_imagemin_seconds_total: { type: 'counter', help: 'Time spent optimising images' },
+  mwoffliner_imagemin_saved_bytes_total: { type: 'counter', help: 'Bytes saved by optimising images' },
+  mwoffliner_articles: { type: 'gauge', help: 'Articles of the dumps, by status (success, fail, reused)' },
+  mwoffliner_files: { type: 'gauge', help: 'Media files of the dumps, by status (success, fail)' },
+  mwoffliner_redirects: { type: 'gauge', help: 'Redirects written by the dumps' },
+  mwoffliner_store_items: { type: 'gauge', help: 'Items of the scrape state stores' },
+  mwoffliner_process_resident_memory_bytes: { type: 'gauge', help: 'Resident memory of the process' },
+  mwoffliner_process_heap_used_bytes: { type: 'gauge', help: 'Used V8 heap of the process' },
+};
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample({ name, labels = {}, value }: MetricSample) {
+  const labelPairs = Object.entries(labels).map(([label, labelValue]) => `${label}="${escapeLabelValue(String(labelValue))}"`);
+  return `${name}${labelPairs.length ? `{${labelPairs.join(',')}}` : ''} ${value}`;
+}
+
+/*
+ * Metrics of a long running scrape, in the Prometheus text format: the
+ * counters are incremented as the requests go, the gauges are read from
+ * the collectors when the metrics are scraped.
+ */
+export class Metrics {
+  private readonly counters = new Map<string, MetricSample>();
+  private collectors: MetricCollector[] = [];
+
+  constructor() {
+    this.addCollector(() => {
+      const { rss, heapUsed } = process.memoryUsage();
+      return [
+        { name: 'mwoffliner_process_resident_memory_bytes', value: rss },
+        { name: 'mwoffliner_process_heap_used_bytes', value: heapUsed },
+      ];
+    });
+  }
+
+  public inc(name: string, labels: KVS<string> = {}, value = 1) {
+    const key = formatSample({ name, labels, value: 0 });
+    const counter = this.counters.get(key);
+    if (counter) {
+      counter.value += value;
+    } else {
+      this.counters.set(key, { name, labels, value });
+    }
+  }
+
+  public addCollector(collector: MetricCollector) {
+    this.collectors.push(collector);
+  }
+
+  public removeCollector(collector: MetricCollector) {
+    this.collectors = this.collectors.filter((c) => c !== collector);
+  }
+
+  public async render() {
+    const samples: MetricSample[] = Array.from(this.counters.values());
+    for (const collector of this.collectors) {
+      samples.push(...await collector());
+    }
+    const lines: string[] = [];
+    for (const [name, { type, help }] of Object.entries(METRIC_DEFINITIONS)) {
+      const metricSamples = samples.filter((sample) => sample.name === name);
+      if (metricSamples.length) {
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...metricSamples.map(formatSample));
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+export const metrics = new Metrics();
+
+/* Serves the metrics on /metrics, for Prometheus to scrape */
+export async function startMetricsServer(port: number, host: string, registry = metrics): Promise<http.Server> {
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== 'GET' || req.url.split('?')[0] !== '/metrics') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    try {
+      const body = await registry.render();
+      res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(body);
+    } catch (err) {
+      res.writeHead(500);
+      res.end(err.message);
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+  logger.log(`Serving metrics on [http://${host}:${(server.address() as AddressInfo).port}/metrics]`);
+  return server;
+}
@@ -0,0 +1,17 @@
+import type { ZimArticle } from '@openzim/libzim';
+
+/*
+ * Destination of the scraped content. Articles, media, CSS and JS are
+ * added as ZimArticles, addressed by namespace and url like in a ZIM
+ * file. ZimCreator implements it, see DirectoryWriter and EpubWriter for
+ * the other outputs.
+ */
+export interface OutputWriter {
+  addArticle(article: typeof ZimArticle): Promise<any>;
+  setMetadata(metadata: KVS<string>): Promise<void>;
+  finalise(): Promise<void>;
+}
+
+export type OutputFormat = 'zim' | 'directory' | 'epub';
+
+export const outputFormats: OutputFormat[] = ['zim', 'directory', 'epub'];
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import * as domino from 'domino';
+import * as pathParser from 'path';
+import { ZimReader } from '@openzim/libzim';
+import logger from '../Logger';
+import { config } from '../config';
+import { jsPath, normalizeModule } from './misc';
+import { WEBP_CANDIDATE_IMAGE_FILENAME_REGEX } from './const';
+
+
+/* Files to copy from the previous ZIM are queued with this url prefix */
+export const PREVIOUS_ZIM_URL_PREFIX = 'zim:';
+
+const REVISION_ID_REGEX = /[?&;]oldid=(\d+)/;
+
+interface ZimManifest {
+  articles: KVS<number>;
+  /* Titles of the links removed from the articles because they were not mirrored */
+  unmirroredLinks?: KVS<string[]>;
+}
+
+export interface UnchangedArticle {
+  html: Buffer;
+  title: string;
+  files: Array<{ path: string, url: string, namespace?: string }>;
+  jsModules: string[];
+  cssModules: string[];
+  /* Articles linked from the HTML, and the ones whose links were removed */
+  links: string[];
+  unmirroredLinks: string[];
+}
+
+
+/*
+ * Read access to the ZIM file of a previous scrape, to reuse the HTML and
+ * the media of the articles which have not been edited since. The revision
+ * of each article comes from the manifest written alongside the ZIM, or
+ * from the footer of the article HTML if there is no manifest. The links
+ * removed because their article was not mirrored are only known from the
+ * manifest too: without it, such links stay removed in the reused HTML.
+ * The HTML with images of another --webp setting is not reused.
+ */
+export class PreviousZim {
+  public readonly zimPath: string;
+
+  private readonly reader: ZimReader;
+  private readonly manifest: ZimManifest;
+  private readonly staticModules: Set<string>;
+
+  constructor(zimPath: string) {
+    this.zimPath = zimPath;
+    this.reader = new ZimReader(zimPath);
+
+    const manifestPath = PreviousZim.manifestPath(zimPath);
+    if (fs.existsSync(manifestPath)) {
+      this.manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      logger.log(`Using manifest [${manifestPath}] of previous ZIM with [${Object.keys(this.manifest.articles).length}] articles`);
+    } else {
+      logger.log(`No manifest found for previous ZIM [${zimPath}], revisions will be read from the article footers`);
+    }
+
+    this.staticModules = new Set([
+      ...config.output.cssResources,
+      ...config.output.mainPageCssResources,
+      ...config.output.jsResources.map(normalizeModule),
+      'jsConfigVars',
+      'webpHeroPolyfill',
+      'webpHeroBundle',
+    ]);
+  }
+
+  public static manifestPath(zimPath: string) {
+    return zimPath.replace(/\.zim$/, '') + '.manifest.json';
+  }
+
+  public static async writeManifest(zimPath: string, revisions: KVS<number>, unmirroredLinks: KVS<string[]> = {}) {
+    const manifest: ZimManifest = { articles: revisions, unmirroredLinks };
+    await fs.promises.writeFile(PreviousZim.manifestPath(zimPath), JSON.stringify(manifest));
+  }
+
+  /* Find the most recent ZIM of a dump (same filename radical, any date) in a directory */
+  public static findInDirectory(dir: string, radicalWithoutDate: string): string {
+    const candidates = fs.readdirSync(dir)
+      .filter((fileName) => fileName.startsWith(`${radicalWithoutDate}_`) && fileName.endsWith('.zim'))
+      .filter((fileName) => /^\d{4}-\d{2}$/.test(fileName.slice(radicalWithoutDate.length + 1, -4)))
+      .sort();
+    return candidates.length ? pathParser.join(dir, candidates[candidates.length - 1]) : null;
+  }
+
+  public static isPreviousZimUrl(url: string) {
+    return url.startsWith(PREVIOUS_ZIM_URL_PREFIX);
+  }
+
+  /* Returns the article of the previous ZIM if it has the same revision, null otherwise */
+  public async getUnchangedArticle(articleId: string, ns: string, articleDetail: ArticleDetail, webp: boolean): Promise<UnchangedArticle> {
+    if (!articleDetail.revisionId) {
+      return null;
+    }
+
+    const previousRevisionId = this.manifest ? this.manifest.articles[articleId] : undefined;
+    if (this.manifest && previousRevisionId !== articleDetail.revisionId) {
+      return null;
+    }
+
+    const article = await this.getZimArticle(`${ns}/${articleId}`);
+    if (!article) {
+      return null;
+    }
+    const html: Buffer = article.data;
+
+    if (!this.manifest) {
+      const match = REVISION_ID_REGEX.exec(html.toString());
+      if (!match || Number(match[1]) !== articleDetail.revisionId) {
+        return null;
+      }
+    }
+
+    const dependencies = this.getDependencies(html.toString(), ns, articleId, webp);
+    if (!dependencies) {
+      return null;
+    }
+    return {
+      html,
+      title: article.title || articleId.replace(/_/g, ' '),
+      ...dependencies,
+      unmirroredLinks: (this.manifest && this.manifest.unmirroredLinks && this.manifest.unmirroredLinks[articleId]) || [],
+    };
+  }
+
+  public async getFile(url: string): Promise<{ content: Buffer, responseHeaders: any, avifContent?: Buffer }> {
+    const zimUrl = url.substr(PREVIOUS_ZIM_URL_PREFIX.length);
+    const article = await this.getZimArticle(zimUrl);
+    if (!article) {
+      throw new Error(`File [${zimUrl}] not found in previous ZIM [${this.zimPath}]`);
+    }
+    /* The reused articles keep the <picture> of the images with an AVIF version */
+    const avifArticle = WEBP_CANDIDATE_IMAGE_FILENAME_REGEX.test(zimUrl) ? await this.getZimArticle(`${zimUrl}.avif`) : null;
+    return {
+      content: article.data,
+      ...(avifArticle ? { avifContent: avifArticle.data } : {}),
+      responseHeaders: {
+        'content-type': article.mimeType,
+        ...(zimUrl.endsWith('.webp') ? { path_postfix: '.webp' } : {}),
+      },
+    };
+  }
+
+  public async getJsConfigVars(): Promise<string> {
+    const article = await this.getZimArticle(`-/${jsPath(config, 'jsConfigVars')}`);
+    return article ? article.data.toString() : '';
+  }
+
+  public close() {
+    this.reader.destroy();
+  }
+
+  private async getZimArticle(zimUrl: string) {
+    try {
+      return await this.reader.getArticleByUrl(zimUrl);
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /* Returns null if the images of the HTML are not converted like the ones of this dump */
+  private getDependencies(html: string, ns: string, articleId: string, webp: boolean) {
+    const doc = domino.createDocument(html);
+    const articleUrl = new URL(`${ns}/${articleId.split('/').map(encodeURIComponent).join('/')}`, 'http://zim.invalid/');
+    const toZimUrl = (ref: string) => {
+      try {
+        return decodeURIComponent(new URL(ref, articleUrl).pathname.substr(1));
+      } catch (err) {
+        return null;
+      }
+    };
+
+    const files: UnchangedArticle['files'] = [];
+    const links = new Set<string>();
+    const refs = Array.from<DominoElement>(doc.querySelectorAll('[src], [poster], a[href]'))
+      .map((el) => el.getAttribute('src') || el.getAttribute('poster') || el.getAttribute('href'));
+    for (const zimUrl of new Set(refs.map(toZimUrl))) {
+      const isMedia = zimUrl && zimUrl.startsWith('I/');
+      const isSubtitle = zimUrl && zimUrl.startsWith('-/') && zimUrl.endsWith('.vtt');
+      if (isMedia || isSubtitle) {
+        const [namespace, ...pathParts] = zimUrl.split('/');
+        let path = pathParts.join('/');
+        const isConverted = path.endsWith('.webp') && WEBP_CANDIDATE_IMAGE_FILENAME_REGEX.test(path.slice(0, -5));
+        if (isMedia && (isConverted ? !webp : webp && WEBP_CANDIDATE_IMAGE_FILENAME_REGEX.test(path))) {
+          return null;
+        }
+        /* Converted images are queued under their original name, like in saveArticles() */
+        if (isConverted) {
+          path = path.slice(0, -5);
+        }
+        files.push({ path, url: `${PREVIOUS_ZIM_URL_PREFIX}${zimUrl}`, ...(namespace === 'I' ? {} : { namespace }) });
+      } else if (zimUrl && zimUrl.startsWith('A/') && zimUrl !== `${ns}/${articleId}`) {
+        links.add(zimUrl.slice(2));
+      }
+    }
+
+    const jsModules: string[] = [];
+    const cssModules: string[] = [];
+    const { dirs } = config.output;
+    for (const script of Array.from<DominoElement>(doc.querySelectorAll('script[src]'))) {
+      const zimUrl = toZimUrl(script.getAttribute('src')) || '';
+      const prefix = `-/${dirs.javascript}/${dirs.jsModules}/`;
+      const name = zimUrl.startsWith(prefix) ? zimUrl.slice(prefix.length).replace(/\.js$/, '') : null;
+      if (name && !this.staticModules.has(name)) {
+        jsModules.push(name);
+      }
+    }
+    for (const link of Array.from<DominoElement>(doc.querySelectorAll('link[rel="stylesheet"]'))) {
+      const zimUrl = toZimUrl(link.getAttribute('href')) || '';
+      const prefix = `-/${dirs.style}/${dirs.styleModules}/`;
+      const name = zimUrl.startsWith(prefix) ? zimUrl.slice(prefix.length).replace(/\.css$/, '') : null;
+      if (name && !this.staticModules.has(name)) {
+        cssModules.push(name);
+      }
+    }
+
+    return { files, jsModules, cssModules, links: Array.from(links) };
+  }
+}
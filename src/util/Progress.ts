@@ -0,0 +1,110 @@
+import logger from '../Logger';
+
+/* Minimum time between two progress log lines, in milliseconds */
+const LOG_INTERVAL = 10 * 1000;
+/* Minimum time between two redraws of the terminal bar, in milliseconds */
+const BAR_INTERVAL = 200;
+const BAR_WIDTH = 30;
+
+/* 42s, 5m12s, 3h07m */
+export function formatDuration(seconds: number) {
+  const s = Math.round(seconds);
+  if (s < 60) {
+    return `${s}s`;
+  }
+  if (s < 3600) {
+    return `${Math.floor(s / 60)}m${String(s % 60).padStart(2, '0')}s`;
+  }
+  return `${Math.floor(s / 3600)}h${String(Math.floor(s / 60) % 60).padStart(2, '0')}m`;
+}
+
+/*
+ * Progress of one step of the scrape (article details, categories,
+ * articles, media...): logs the items done, the throughput and the
+ * estimated time left every few seconds, or redraws a bar on the last
+ * line of the terminal with --progressBar.
+ */
+export class Progress {
+  /* Terminal bar instead of log lines, when stdout is a TTY */
+  public static bar = false;
+
+  public done: number;
+  /* Unknown for the steps which discover their items as they go */
+  public total?: number;
+
+  private readonly startDone: number;
+  private readonly start: number;
+  private lastLog: number;
+  private lastDraw = 0;
+
+  /* Items already done (e.g. by an interrupted scrape) count in the progress, not in the throughput */
+  constructor(public readonly name: string, total?: number, done = 0, private readonly now = Date.now) {
+    this.total = total;
+    this.done = done;
+    this.startDone = done;
+    this.start = now();
+    this.lastLog = this.start;
+  }
+
+  public addTotal(count: number) {
+    this.total = (this.total || 0) + count;
+  }
+
+  public tick(count = 1) {
+    this.done += count;
+    const now = this.now();
+    if (Progress.bar) {
+      if (now - this.lastDraw >= BAR_INTERVAL) {
+        this.lastDraw = now;
+        logger.setStatusLine(this.toBar());
+      }
+    } else if (now - this.lastLog >= LOG_INTERVAL) {
+      this.lastLog = now;
+      logger.log(this.toString());
+    }
+  }
+
+  public end() {
+    if (Progress.bar) {
+      logger.setStatusLine(undefined);
+    }
+    const elapsed = (this.now() - this.start) / 1000;
+    logger.log(`Done ${this.name} [${this.done}] in [${formatDuration(elapsed)}] [${this.rate().toFixed(1)}/s]`);
+  }
+
+  /* Items per second */
+  public rate() {
+    const elapsed = (this.now() - this.start) / 1000;
+    return elapsed > 0 ? (this.done - this.startDone) / elapsed : 0;
+  }
+
+  /* Seconds left, undefined if it can't be estimated yet */
+  public eta() {
+    const rate = this.rate();
+    if (!this.total || !rate) {
+      return undefined;
+    }
+    return Math.max(0, this.total - this.done) / rate;
+  }
+
+  public toString() {
+    const eta = this.eta();
+    return [
+      `Progress ${this.name}`,
+      this.total ? `[${this.done}/${this.total}] [${this.percent().toFixed(1)}%]` : `[${this.done}]`,
+      `[${this.rate().toFixed(1)}/s]`,
+      eta === undefined ? '' : `[ETA ${formatDuration(eta)}]`,
+    ].filter((a) => a).join(' ');
+  }
+
+  public toBar() {
+    const eta = this.eta();
+    const filled = this.total ? Math.round(Math.min(1, this.done / this.total) * BAR_WIDTH) : 0;
+    const bar = this.total ? `[${'='.repeat(filled)}${' '.repeat(BAR_WIDTH - filled)}] ${this.percent().toFixed(1)}% ` : '';
+    return `${this.name} ${bar}${this.done}${this.total ? `/${this.total}` : ''} ${this.rate().toFixed(1)}/s${eta === undefined ? '' : ` ETA ${formatDuration(eta)}`}`;
+  }
+
+  private percent() {
+    return Math.min(100, this.done / this.total * 100);
+  }
+}
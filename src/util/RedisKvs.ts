@@ -1,6 +1,7 @@
 import {cpus} from 'os';
 import pmap from 'p-map';
 import type {RedisClient} from 'redis';
+import type {Kvs, KvsFactory} from './Kvs';
 
 
 interface ScanResult {
@@ -9,7 +10,7 @@ interface ScanResult {
 }
 
 
-export class RedisKvs<T> {
+export class RedisKvs<T> implements Kvs<T> {
   private redisClient: RedisClient;
   private readonly dbName: string;
   private readonly keyMapping?: { [key: string]: string };
@@ -257,3 +258,6 @@ export class RedisKvs<T> {
     return mappedVal;
   }
 }
+
+export const redisKvsFactory = (redisClient: RedisClient): KvsFactory =>
+  <T>(dbName: string, keyMapping?: { [key: string]: string }) => new RedisKvs<T>(redisClient, dbName, keyMapping);
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import * as pathParser from 'path';
+import type { ZimArticle } from '@openzim/libzim';
+import logger from '../Logger';
+import { MIME_TYPES_BY_EXTENSION } from './const';
+import type { OutputWriter } from './OutputWriter';
+
+
+export interface Phase {
+  name: string;
+  start: number;
+  end?: number;
+}
+
+
+/*
+ * Machine readable summary of a dump, written as JSON next to its output
+ * with --report: failed articles and media with their reasons, the amount
+ * of content written by MIME type and how long each phase took.
+ */
+export class RunReport {
+  public readonly failedArticles: Array<{ articleId: string, reason: string }> = [];
+  public readonly failedMedia: Array<{ path: string, url: string, reason: string }> = [];
+  public readonly output: KVS<{ count: number, bytes: number }> = {};
+
+  private readonly phases: Phase[] = [];
+
+  /* Ends the current phase, the log lines carry the name of the new one */
+  public startPhase(name: string) {
+    this.endPhase();
+    this.phases.push({ name, start: Date.now() });
+    logger.phase = name;
+  }
+
+  /* The phase which was running, if any */
+  public endPhase(): Phase {
+    const current = this.phases[this.phases.length - 1];
+    if (current && !current.end) {
+      current.end = Date.now();
+      return current;
+    }
+  }
+
+  public addFailedArticle(articleId: string, err: any) {
+    this.failedArticles.push({ articleId, reason: RunReport.reason(err) });
+  }
+
+  public addFailedMedia(path: string, url: string, err: any) {
+    this.failedMedia.push({ path, url, reason: RunReport.reason(err) });
+  }
+
+  /* Same writer, counting what goes through it */
+  public trackOutput(writer: OutputWriter): OutputWriter {
+    return {
+      addArticle: (article: typeof ZimArticle) => {
+        this.countArticle(article);
+        return writer.addArticle(article);
+      },
+      setMetadata: (metadata: KVS<string>) => writer.setMetadata(metadata),
+      finalise: () => writer.finalise(),
+    };
+  }
+
+  public toJSON(status: any, err?: Error) {
+    return {
+      success: !err,
+      ...(err ? { error: err.message || String(err) } : {}),
+      status,
+      failedArticles: this.failedArticles,
+      failedMedia: this.failedMedia,
+      output: this.output,
+      phases: this.phases.map(({ name, start, end }) => ({
+        name,
+        start: new Date(start).toISOString(),
+        duration: (end || Date.now()) - start,
+      })),
+    };
+  }
+
+  public async write(path: string, status: any, err?: Error) {
+    this.endPhase();
+    await fs.promises.writeFile(path, JSON.stringify(this.toJSON(status, err), null, '\t'));
+    logger.log(`Wrote run report to [${path}]`);
+  }
+
+  private countArticle(article: typeof ZimArticle) {
+    if (article.redirectUrl) {
+      return;
+    }
+    const extension = pathParser.extname(article.url || '').substr(1).toLowerCase();
+    const mimeType = article.mimeType || MIME_TYPES_BY_EXTENSION[extension] || 'application/octet-stream';
+    const data = article.bufferData;
+    const entry = this.output[mimeType] || (this.output[mimeType] = { count: 0, bytes: 0 });
+    entry.count += 1;
+    entry.bytes += data ? data.length : 0;
+  }
+
+  public static reason(err: any): string {
+    if (!err) {
+      return 'Unknown error';
+    }
+    const status = err.response && err.response.status;
+    return `${status ? `[status=${status}] ` : ''}${err.message || String(err)}`;
+  }
+}
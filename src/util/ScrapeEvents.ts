@@ -0,0 +1,56 @@
+import { EventEmitter } from 'events';
+
+/* Payloads of the events, by event name */
+export interface ScrapeEventMap {
+  phaseStart: { phase: string, outFile: string };
+  phaseEnd: { phase: string, outFile: string, duration: number };
+  articleDone: { articleId: string, success: boolean, reason?: string };
+  fileDone: { path: string, url: string, success: boolean, reason?: string };
+  warning: { message: string };
+}
+
+/*
+ * Progress of a scrape for the programs using mwoffliner as a library,
+ * given to execute(): the phases of each dump, each article and media
+ * file written or given up, and the warnings.
+ */
+export class ScrapeEvents extends EventEmitter {
+  public on<E extends keyof ScrapeEventMap>(event: E, listener: (payload: ScrapeEventMap[E]) => void): this {
+    return super.on(event, listener);
+  }
+
+  public once<E extends keyof ScrapeEventMap>(event: E, listener: (payload: ScrapeEventMap[E]) => void): this {
+    return super.once(event, listener);
+  }
+
+  public off<E extends keyof ScrapeEventMap>(event: E, listener: (payload: ScrapeEventMap[E]) => void): this {
+    return super.off(event, listener);
+  }
+
+  public emit<E extends keyof ScrapeEventMap>(event: E, payload: ScrapeEventMap[E]): boolean {
+    return super.emit(event, payload);
+  }
+}
+
+/*
+ * Cancellation of execute(): an AbortSignal, or any object whose aborted
+ * flag is set, AbortController not being there before Node 15.
+ */
+export interface ScrapeSignal {
+  readonly aborted: boolean;
+}
+
+/* Rejection of execute() when its signal is aborted */
+export class AbortError extends Error {
+  public name = 'AbortError';
+
+  constructor(message = 'Scrape aborted') {
+    super(message);
+  }
+}
+
+export function throwIfAborted(signal?: ScrapeSignal) {
+  if (signal && signal.aborted) {
+    throw new AbortError();
+  }
+}
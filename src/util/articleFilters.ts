@@ -0,0 +1,97 @@
+import logger from '../Logger';
+import MediaWiki from '../MediaWiki';
+import Downloader from '../Downloader';
+import { articleDetailXId, redirectsXId } from '../stores';
+
+/* Maximum number of titles of one API query */
+const TITLES_BATCH_SIZE = 50;
+
+export interface ArticleFilterOpts {
+  /* Article ids of --articleListToIgnore */
+  ignoredIds?: string[];
+  /* Matched against the titles */
+  titleExclude?: RegExp[];
+  excludeDisambiguations?: boolean;
+  minArticleBytes?: number;
+  excludeProtected?: boolean;
+  /* Never removed, e.g. the main page */
+  keptIds?: string[];
+}
+
+export function hasArticleFilters({ ignoredIds = [], titleExclude = [], excludeDisambiguations, minArticleBytes, excludeProtected }: ArticleFilterOpts) {
+  return !!(ignoredIds.length || titleExclude.length || excludeDisambiguations || minArticleBytes || excludeProtected);
+}
+
+function hasPropertyFilters({ excludeDisambiguations, minArticleBytes, excludeProtected }: ArticleFilterOpts) {
+  return !!(excludeDisambiguations || minArticleBytes || excludeProtected);
+}
+
+/* Article ids of the batch to remove because of their page properties */
+async function getFilteredByProperties(articleIds: string[], downloader: Downloader, mw: MediaWiki, opts: ArticleFilterOpts) {
+  const filteredIds: string[] = [];
+  for (let i = 0; i < articleIds.length; i += TITLES_BATCH_SIZE) {
+    const resp = await downloader.getJSON<any>(mw.pagePropsApiUrl(articleIds.slice(i, i + TITLES_BATCH_SIZE)));
+    const pages: any[] = resp.query && resp.query.pages ? Object.values(resp.query.pages) : [];
+    for (const page of pages) {
+      const isDisambiguation = page.pageprops && page.pageprops.hasOwnProperty('disambiguation');
+      const isTooShort = typeof page.length === 'number' && page.length < opts.minArticleBytes;
+      const isProtected = (page.protection || []).some(({ type }: { type: string }) => type === 'edit');
+      if ((opts.excludeDisambiguations && isDisambiguation) || isTooShort || (opts.excludeProtected && isProtected)) {
+        filteredIds.push(page.title.replace(/ /g, '_'));
+      }
+    }
+  }
+  return filteredIds;
+}
+
+/*
+ * Removes from the articles to scrape the ones of --articleListToIgnore,
+ * the ones with an excluded title and the ones with excluded page
+ * properties, as well as the redirects to them. As they are not in the
+ * store anymore, the links to them are removed like for any unmirrored
+ * article. Returns the removed article ids.
+ */
+export async function filterArticles(downloader: Downloader, mw: MediaWiki, opts: ArticleFilterOpts) {
+  const ignoredIds = new Set((opts.ignoredIds || []).map((id) => id.replace(/ /g, '_')));
+  const keptIds = new Set((opts.keptIds || []).map((id) => id.replace(/ /g, '_')));
+  const removedIds = new Set<string>();
+
+  await articleDetailXId.iterateItems(downloader.speed, async (articleDetails) => {
+    const remainingIds: string[] = [];
+    for (const [articleId, articleDetail] of Object.entries(articleDetails)) {
+      const title = articleDetail.title || articleId.replace(/_/g, ' ');
+      if (keptIds.has(articleId)) {
+        continue;
+      } else if (ignoredIds.has(articleId) || (opts.titleExclude || []).some((pattern) => pattern.test(title))) {
+        removedIds.add(articleId);
+      } else {
+        remainingIds.push(articleId);
+      }
+    }
+    if (hasPropertyFilters(opts)) {
+      for (const articleId of await getFilteredByProperties(remainingIds, downloader, mw, opts)) {
+        if (!keptIds.has(articleId)) {
+          removedIds.add(articleId);
+        }
+      }
+    }
+  });
+
+  const removedRedirectIds: string[] = [];
+  await redirectsXId.iterateItems(downloader.speed, async (redirects) => {
+    for (const [redirectId, { targetId }] of Object.entries(redirects)) {
+      if (removedIds.has(targetId) || ignoredIds.has(redirectId)) {
+        removedRedirectIds.push(redirectId);
+      }
+    }
+  });
+
+  if (removedIds.size) {
+    await articleDetailXId.deleteMany(Array.from(removedIds));
+  }
+  if (removedRedirectIds.length) {
+    await redirectsXId.deleteMany(removedRedirectIds);
+  }
+  logger.log(`Filtered out [${removedIds.size}] articles and [${removedRedirectIds.length}] redirects`);
+  return removedIds;
+}
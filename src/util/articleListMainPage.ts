@@ -1,13 +1,16 @@
 import { Dump } from '../Dump';
-import { encodeArticleIdForZimHtmlUrl, shouldConvertImageFilenameToWebp } from '../util';
+import { encodeArticleIdForZimHtmlUrl, shouldConvertImageFilenameToWebp, shouldAddAvifImageFilename } from '../util';
 
 export function makeArticleListItem(dump: Dump, articleEntry: any) {
     return `<li><a href="${encodeArticleIdForZimHtmlUrl('./' + articleEntry.title.replace(/ /g, '_'))}">${articleEntry.title.replace(/_/g, ' ')}<a></li>\n`;
 }
 
-export function makeArticleImageTile(dump: Dump, articleEntry: ArticleDetail, webp: boolean) {
+export function makeArticleImageTile(dump: Dump, articleEntry: ArticleDetail, webp: boolean, avif = false) {
+    const img = `<img loading="lazy" src="${articleEntry.internalThumbnailUrl +
+            (shouldConvertImageFilenameToWebp(articleEntry.internalThumbnailUrl, webp) ? '.webp' : '')}" />`;
     return `<a class="item" href="${'./' + encodeArticleIdForZimHtmlUrl(articleEntry.title.replace(/ /g, '_') || '')}">
-            <figure><img loading="lazy" src="${articleEntry.internalThumbnailUrl +
-            (shouldConvertImageFilenameToWebp(articleEntry.internalThumbnailUrl, webp) ? '.webp' : '')}" />
+            <figure>${shouldAddAvifImageFilename(articleEntry.internalThumbnailUrl, avif)
+            ? `<picture><source srcset="${articleEntry.internalThumbnailUrl}.avif" type="image/avif" />${img}</picture>`
+            : img}
             <figcaption>${(articleEntry.title || '').replace(/_/g, ' ')}</figcaption></figure></a>\n`;
 }
@@ -0,0 +1,65 @@
+import pmap from 'p-map';
+import logger from '../Logger';
+import { RunReport } from './RunReport';
+import { articleDetailXId, articlesToRetryXId } from '../stores';
+
+export const ARTICLE_RETRY_ATTEMPTS = 3;
+
+/* Delay before the first retry round, doubled for each next round */
+export const ARTICLE_RETRY_BACKOFF = 10000;
+
+export interface ArticleRetryOpts {
+  attempts?: number;
+  /* In milliseconds */
+  backoff?: number;
+}
+
+/* Articles which do not exist (anymore) are not worth retrying */
+function isPermanentFailure(err: any) {
+  return !!err && !!err.response && err.response.status === 404;
+}
+
+export async function queueArticleRetry(articleId: string, err: any) {
+  const previous = await articlesToRetryXId.get(articleId);
+  await articlesToRetryXId.set(articleId, {
+    attempts: (previous ? previous.attempts : 0) + 1,
+    reason: RunReport.reason(err),
+    permanent: isPermanentFailure(err),
+  });
+}
+
+/*
+ * Saves again the articles which failed, in rounds separated by a growing
+ * delay so that transient errors (overloaded backend, rate limiting...)
+ * have a chance to go away. Returns the articles still failing after the
+ * last round, with the reason of their last failure.
+ */
+export async function retryArticles(
+  speed: number,
+  saveArticle: (articleId: string, articleDetail: ArticleDetail) => Promise<void>,
+  { attempts = ARTICLE_RETRY_ATTEMPTS, backoff = ARTICLE_RETRY_BACKOFF }: ArticleRetryOpts = {},
+) {
+  for (let attempt = 1; attempt <= attempts; attempt += 1) {
+    const queuedArticles = await articlesToRetryXId.getMany(await articlesToRetryXId.keys());
+    const articleIds = Object.keys(queuedArticles).filter((articleId) => !queuedArticles[articleId].permanent);
+    if (!articleIds.length) {
+      break;
+    }
+    const delay = backoff * Math.pow(2, attempt - 1);
+    logger.log(`Retrying [${articleIds.length}] failed articles in [${delay / 1000}s] (attempt [${attempt}/${attempts}])`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+
+    await pmap(articleIds, async (articleId) => {
+      try {
+        await saveArticle(articleId, await articleDetailXId.get(articleId));
+        await articlesToRetryXId.delete(articleId);
+      } catch (err) {
+        await queueArticleRetry(articleId, err);
+        logger.withContext({ articleId }).warn(`Error downloading article [${articleId}] again`, err);
+      }
+    }, { concurrency: speed });
+  }
+
+  const failedArticles = await articlesToRetryXId.getMany(await articlesToRetryXId.keys());
+  return Object.entries(failedArticles).map(([articleId, { attempts, reason }]) => ({ articleId, attempts, reason }));
+}
@@ -1,21 +1,23 @@
 import Downloader from '../Downloader';
-import { RedisKvs } from './RedisKvs';
-import Redis from '../Redis';
+import type { Kvs, KvsFactory } from './Kvs';
 import logger from '../Logger';
 import { articleDetailXId } from '../stores';
 import { getArticlesByIds } from './mw-api';
+import { Progress } from './Progress';
 import { deDup } from '.';
 
-export async function getCategoriesForArticles(articleStore: RedisKvs<ArticleDetail>, downloader: Downloader, redis: Redis, deleteArticleStore = false): Promise<void> {
-    const nextCategoriesBatch = new RedisKvs<ArticleDetail>(redis.client, `${Date.now()}-request`);
-    logger.log(`Fetching categories for [${await articleStore.len()}] articles`);
+export async function getCategoriesForArticles(articleStore: Kvs<ArticleDetail>, downloader: Downloader, createKvs: KvsFactory, deleteArticleStore = false): Promise<void> {
+    const nextCategoriesBatch = createKvs<ArticleDetail>(`${Date.now()}-request`);
+    const numArticles = await articleStore.len();
+    logger.log(`Fetching categories for [${numArticles}] articles`);
+    const progress = new Progress('fetching categories', numArticles);
 
     await articleStore
         .iterateItems(
             downloader.speed,
             async (articleKeyValuePairs, workerId) => {
                 const articleKeys = Object.keys(articleKeyValuePairs);
-                logger.log(`Worker [${workerId}] getting categories for articles ${logger.logifyArray(articleKeys)}`);
+                logger.info(`Worker [${workerId}] getting categories for articles ${logger.logifyArray(articleKeys)}`);
 
                 const pagesXCategoryId: { [categoryId: string]: PageInfo[] } = Object.entries(articleKeyValuePairs)
                     .reduce((acc: any, [aId, detail]) => {
@@ -57,8 +59,10 @@ export async function getCategoriesForArticles(articleStore: RedisKvs<ArticleDet
                         await articleDetailXId.set(id, detail);
                     }
                 }
+                progress.tick(articleKeys.length);
             },
         );
+    progress.end();
 
     if (deleteArticleStore) {
         await articleStore.flush();
@@ -66,7 +70,7 @@ export async function getCategoriesForArticles(articleStore: RedisKvs<ArticleDet
 
     const nextBatchSize = await nextCategoriesBatch.len();
     if (nextBatchSize) {
-        return getCategoriesForArticles(nextCategoriesBatch, downloader, redis, true);
+        return getCategoriesForArticles(nextCategoriesBatch, downloader, createKvs, true);
     } else {
         return null;
     }
@@ -75,8 +79,7 @@ export async function getCategoriesForArticles(articleStore: RedisKvs<ArticleDet
 export async function trimUnmirroredPages(downloader: Downloader) {
     logger.log(`Trimming un-mirrored articles for [${await articleDetailXId.len()}] articles`);
     const numKeys = await articleDetailXId.len();
-    let prevPercentProgress = -1;
-    let processedArticles = 0;
+    const progress = new Progress('trimming un-mirrored articles', numKeys);
     let modifiedArticles = 0;
 
     await articleDetailXId
@@ -85,7 +88,7 @@ export async function trimUnmirroredPages(downloader: Downloader) {
             async (articleKeyValuePairs, workerId) => {
 
                 for (const [articleId, articleDetail] of Object.entries(articleKeyValuePairs)) {
-                    processedArticles += 1;
+                    progress.tick();
                     if (typeof (articleDetail as any).missing === 'string') {
                         await articleDetailXId.delete(articleId);
                         modifiedArticles += 1;
@@ -151,17 +154,10 @@ export async function trimUnmirroredPages(downloader: Downloader) {
                         await articleDetailXId.set(articleId, articleDetail);
                         modifiedArticles += 1;
                     }
-
-                    if (processedArticles % 100 === 0) {
-                        const percentProgress = Math.floor(processedArticles / numKeys * 1000) / 10;
-                        if (percentProgress !== prevPercentProgress) {
-                            prevPercentProgress = percentProgress;
-                            logger.log(`Progress trimming un-mirrored articles [${processedArticles}/${numKeys}] [${percentProgress}%]`);
-                        }
-                    }
                 }
             },
         );
+    progress.end();
 
     return modifiedArticles;
 }
@@ -169,8 +165,7 @@ export async function trimUnmirroredPages(downloader: Downloader) {
 export async function simplifyGraph(downloader: Downloader) {
     logger.log(`Simplifying graph (removing empty categories)`);
     const numKeys = await articleDetailXId.len();
-    let prevPercentProgress = -1;
-    let processedArticles = 0;
+    const progress = new Progress('simplifying graph', numKeys);
     let deletedNodes = 0;
 
     await articleDetailXId
@@ -178,7 +173,7 @@ export async function simplifyGraph(downloader: Downloader) {
             downloader.speed,
             async (articleKeyValuePairs, workerId) => {
                 for (const [articleId, articleDetail] of Object.entries(articleKeyValuePairs)) {
-                    processedArticles += 1;
+                    progress.tick();
 
                     if (articleDetail.ns !== 14) {
                         continue; // Only trim category articles
@@ -225,14 +220,8 @@ export async function simplifyGraph(downloader: Downloader) {
                         deletedNodes += 1;
                     }
                 }
-
-                if (processedArticles % 10 === 0) {
-                    const percentProgress = Math.floor(processedArticles / numKeys * 1000) / 10;
-                    if (percentProgress !== prevPercentProgress) {
-                        prevPercentProgress = percentProgress;
-                        logger.log(`Progress simplifying graph [${processedArticles}/${numKeys}] [${percentProgress}%] deleted [${deletedNodes}]`);
-                    }
-                }
             });
+    progress.end();
+    logger.log(`Deleted [${deletedNodes}] nodes of the graph`);
     return { deletedNodes };
 }
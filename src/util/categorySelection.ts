@@ -0,0 +1,107 @@
+import pmap from 'p-map';
+import logger from '../Logger';
+import MediaWiki from '../MediaWiki';
+import Downloader from '../Downloader';
+import { Progress } from './Progress';
+import { ucFirst } from './misc';
+
+const CATEGORY_NAMESPACE = 14;
+
+export interface CategorySelectionOpts {
+  /* Categories to start from, with or without namespace prefix */
+  roots: string[];
+  /* Levels of subcategories to go down, 0 for the members of the roots only */
+  depth: number;
+  /* Subcategories are only followed if they match one of these (if any) and none of the exclude ones */
+  include?: RegExp[];
+  exclude?: RegExp[];
+}
+
+interface CategoryMember {
+  pageid: number;
+  ns: number;
+  title: string;
+  type: 'page' | 'subcat';
+}
+
+async function getCategoryMembers(categoryTitle: string, downloader: Downloader, mw: MediaWiki): Promise<CategoryMember[]> {
+  let members: CategoryMember[] = [];
+  let continueStr = '';
+  do {
+    const resp = await downloader.getJSON<any>(mw.categoryMembersApiUrl(categoryTitle, continueStr));
+    members = members.concat(resp.query ? resp.query.categorymembers : []);
+    continueStr = resp.continue ? resp.continue.cmcontinue : '';
+  } while (continueStr);
+  return members;
+}
+
+/* Category title with its namespace prefix, in the form of the API answers */
+export function normaliseCategoryTitle(title: string, mw: MediaWiki) {
+  const normalised = title.trim().replace(/_/g, ' ');
+  const [, prefix] = /^([^:]+):/.exec(normalised) || [];
+  const hasCategoryPrefix = prefix && mw.namespaces[prefix] && mw.namespaces[prefix].num === CATEGORY_NAMESPACE;
+  return hasCategoryPrefix ? normalised : `Category:${normalised}`;
+}
+
+/* Same key for a category whatever its namespace prefix, e.g. the English one of the roots and the localised one of the API answers */
+function categoryKey(title: string, mw: MediaWiki) {
+  const normalised = normaliseCategoryTitle(title, mw);
+  return ucFirst(normalised.substr(normalised.indexOf(':') + 1));
+}
+
+/* Subcategory patterns are matched against the title without namespace */
+function shouldFollowSubcategory(title: string, { include = [], exclude = [] }: CategorySelectionOpts) {
+  const name = title.replace(/^[^:]+:/, '');
+  return (!include.length || include.some((pattern) => pattern.test(name)))
+    && !exclude.some((pattern) => pattern.test(name));
+}
+
+/*
+ * Article ids of the pages in the given categories and in their
+ * subcategories, down to a depth. Categories are walked level by level,
+ * each only once, so cycles in the category graph are not a problem.
+ * Only the pages of the namespaces to mirror are kept.
+ */
+export async function getCategoryArticleIds(downloader: Downloader, mw: MediaWiki, opts: CategorySelectionOpts) {
+  const namespacesToMirror = mw.namespacesToMirror.map((name) => mw.namespaces[name].num);
+  const articleIds = new Set<string>();
+  const visited = new Set<string>();
+  let level = opts.roots.map((root) => normaliseCategoryTitle(root, mw));
+  /* The total grows as the subcategories are found */
+  const progress = new Progress('resolving categories');
+
+  for (let depth = 0; level.length; depth += 1) {
+    level.forEach((categoryTitle) => visited.add(categoryKey(categoryTitle, mw)));
+    logger.log(`Getting members of [${level.length}] categories at depth [${depth}]`);
+    progress.addTotal(level.length);
+
+    const subcategories = await pmap(level, async (categoryTitle) => {
+      const members = await getCategoryMembers(categoryTitle, downloader, mw);
+      progress.tick();
+      for (const { ns, title } of members.filter(({ type }) => type === 'page')) {
+        if (namespacesToMirror.includes(ns)) {
+          articleIds.add(title.replace(/ /g, '_'));
+        }
+      }
+      return members
+        .filter(({ type }) => type === 'subcat')
+        .map(({ title }) => title);
+    }, { concurrency: downloader.speed });
+
+    /* Subcategories by key */
+    const nextLevel = new Map<string, string>();
+    if (depth < opts.depth) {
+      for (const title of ([] as string[]).concat(...subcategories)) {
+        const key = categoryKey(title, mw);
+        if (!visited.has(key) && !nextLevel.has(key) && shouldFollowSubcategory(title, opts)) {
+          nextLevel.set(key, title);
+        }
+      }
+    }
+    level = Array.from(nextLevel.values());
+  }
+
+  progress.end();
+  logger.log(`Found [${articleIds.size}] articles in [${visited.size}] categories`);
+  return Array.from(articleIds);
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import * as pathParser from 'path';
+import { parameterDescriptions } from '../parameterList';
+
+/* Options which only make sense on the command line */
+const CLI_ONLY_OPTIONS = ['config', 'profile'];
+
+/* Options which are local paths (or urls), relative ones are relative to the config file */
+const PATH_OPTIONS = ['articleList', 'articleListToIgnore', 'pageviewsFile', 'customZimFavicon', 'outputDirectory', 'httpCacheDirectory', 'previousZim', 'osTmpDir', 'customFlavour', 'caBundle'];
+
+const toCamelCase = (key: string) => key.replace(/-([a-z])/g, (_, char) => char.toUpperCase());
+
+function checkIsMap(value: any, where: string) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where} should be a map`);
+  }
+}
+
+function checkOptions(options: KVS<any>, where: string) {
+  checkIsMap(options, where);
+  for (const key of Object.keys(options)) {
+    const option = toCamelCase(key);
+    if (!parameterDescriptions.hasOwnProperty(option) || CLI_ONLY_OPTIONS.includes(option)) {
+      throw new Error(`Unknown argument [${key}] in ${where}`);
+    }
+  }
+}
+
+function resolvePaths(options: KVS<any>, configDir: string) {
+  const resolved: KVS<any> = {};
+  for (const [key, value] of Object.entries(options)) {
+    const isPath = PATH_OPTIONS.includes(toCamelCase(key)) && typeof value === 'string' && value && !/^https?:\/\//i.test(value);
+    resolved[key] = isPath ? pathParser.resolve(configDir, value) : value;
+  }
+  return resolved;
+}
+
+/*
+ * Options of a --config file (JSON or YAML), with the same names as the
+ * command line ones. The options at the root of the file apply to every
+ * run, then the ones of the selected profiles, in the given order:
+ *
+ *   adminEmail: foo@bar.net
+ *   profiles:
+ *     wikipedia_en:
+ *       mwUrl: https://en.wikipedia.org
+ *     nopic:
+ *       format: nopic
+ *
+ * Relative paths (--articleList, --outputDirectory...) are relative to the
+ * directory of the config file, not to the current directory.
+ */
+export function loadConfigFile(configPath: string, profileNames: string[] = []) {
+  const content = fs.readFileSync(configPath, 'utf8');
+  const extension = pathParser.extname(configPath).toLowerCase();
+  let config: any;
+  try {
+    if (extension === '.json') {
+      config = JSON.parse(content);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      config = yaml.safeLoad(content);
+    } else {
+      throw new Error('only .json, .yaml and .yml files are supported');
+    }
+  } catch (err) {
+    throw new Error(`Failed to read config file [${configPath}]: ${err.message}`);
+  }
+
+  const { profiles = {}, ...options } = config || {};
+  checkOptions(options, `config file [${configPath}]`);
+  checkIsMap(profiles, `profiles of [${configPath}]`);
+  const configDir = pathParser.dirname(pathParser.resolve(configPath));
+
+  return profileNames.reduce((acc, profileName) => {
+    if (!profiles.hasOwnProperty(profileName)) {
+      throw new Error(`Profile [${profileName}] not found in [${configPath}], use one of [${Object.keys(profiles).join(', ')}]`);
+    }
+    const profile = profiles[profileName] || {};
+    checkOptions(profile, `profile [${profileName}] of [${configPath}]`);
+    return { ...acc, ...resolvePaths(profile, configDir) };
+  }, resolvePaths(options, configDir));
+}
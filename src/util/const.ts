@@ -6,7 +6,48 @@ export const CONCURRENCY_LIMIT = 10;
 export const IMAGE_MIME_REGEX = /^image+[/-\w.]+$/;
 export const FIND_HTTP_REGEX = /^(?:https?:\/\/)?/i;
 export const DB_ERROR = 'internal_api_error_DBQueryError';
+/* Seconds of database replication lag above which the action API refuses the requests */
+export const MAXLAG_SECONDS = 5;
 export const WEAK_ETAG_REGEX = /^(W\/)/;
 export const WEBP_CANDIDATE_IMAGE_FILENAME_REGEX = /(jpeg|png|jpg)$/i;
 export const BITMAP_IMAGE_MIME_REGEX = /^image+[/-\w.]+(jpeg|png|gif)$/;
-export const WEBP_CANDIDATE_IMAGE_MIME_TYPE = /image+[/]+(jpeg|png)/;
\ No newline at end of file
+export const WEBP_CANDIDATE_IMAGE_MIME_TYPE = /image+[/]+(jpeg|png)/;
+/* ISO 639-3 codes of the MediaWiki language codes which are not ISO ones */
+export const MEDIAWIKI_LANG_ISO3: KVS<string> = {
+  'als': 'gsw',
+  'bat-smg': 'sgs',
+  'be-tarask': 'bel',
+  'be-x-old': 'bel',
+  'cbk-zam': 'cbk',
+  'fiu-vro': 'vro',
+  'nds-nl': 'nds',
+  'roa-rup': 'rup',
+  'roa-tara': 'nap',
+  'sh': 'hbs',
+  'simple': 'eng',
+  'zh-classical': 'lzh',
+  'zh-min-nan': 'nan',
+  'zh-yue': 'yue',
+};
+/* AVIF quality (1-100) of the converted jpeg and png images, per default */
+export const DEFAULT_AVIF_QUALITY = 50;
+export const MIME_TYPES_BY_EXTENSION: KVS<string> = {
+  avif: 'image/avif',
+  css: 'text/css',
+  gif: 'image/gif',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  js: 'application/javascript',
+  mp3: 'audio/mpeg',
+  mp4: 'audio/mp4',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  ogv: 'video/ogg',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  ttf: 'font/ttf',
+  webm: 'video/webm',
+  webp: 'image/webp',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
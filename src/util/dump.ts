@@ -6,9 +6,10 @@ import Downloader from '../Downloader';
 import { getFullUrl, jsPath, cssPath } from '.';
 import { config } from '../config';
 import MediaWiki from '../MediaWiki';
-import { ZimCreator, ZimArticle } from '@openzim/libzim';
+import { ZimArticle } from '@openzim/libzim';
 import { Dump } from '../Dump';
 import { filesToDownloadXPath } from '../stores';
+import type { OutputWriter } from './OutputWriter';
 import fs from 'fs'
 
 export async function getAndProcessStylesheets(downloader: Downloader, links: Array<string | DominoElement>) {
@@ -81,7 +82,7 @@ export async function getAndProcessStylesheets(downloader: Downloader, links: Ar
     });
 }
 
-export async function downloadAndSaveModule(zimCreator: ZimCreator, mw: MediaWiki, downloader: Downloader, dump: Dump, module: string, type: 'js' | 'css') {
+export async function downloadAndSaveModule(zimCreator: OutputWriter, mw: MediaWiki, downloader: Downloader, dump: Dump, module: string, type: 'js' | 'css') {
     // param :
     //   module : string : the name of the module
     //   moduleUri : string : the path where the module will be saved into the zim
@@ -144,7 +145,7 @@ export async function downloadAndSaveModule(zimCreator: ZimCreator, mw: MediaWik
 }
 
 // URLs should be kept the same as Kiwix JS relies on it.
-export async function importPolyfillModules(zimCreator: ZimCreator) {
+export async function importPolyfillModules(zimCreator: OutputWriter) {
     [
         { name: 'webpHeroPolyfill', path: 'webp-hero/dist-cjs/polyfills.js' },
         { name: 'webpHeroBundle',   path: 'webp-hero/dist-cjs/webp-hero.bundle.js' }
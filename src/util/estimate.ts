@@ -0,0 +1,123 @@
+import fs from 'fs';
+import pmap from 'p-map';
+import domino from 'domino';
+import * as pathParser from 'path';
+import logger from '../Logger';
+import Downloader from '../Downloader';
+import MediaWiki from '../MediaWiki';
+import { Dump } from '../Dump';
+import { articleDetailXId, redirectsXId } from '../stores';
+import { getMediaBase } from './misc';
+import { treatMedias } from './saveArticles';
+
+export const DEFAULT_SAMPLE_RATE = 0.01;
+
+/* Articles sampled at least, whatever the sample rate, for the extrapolation to mean something */
+const MIN_SAMPLE_SIZE = 10;
+
+/* Rough size of the HTML once compressed in the ZIM clusters (zstd/lzma), media are already compressed */
+const HTML_COMPRESSION_RATIO = 0.2;
+
+export interface DumpEstimate {
+  flavour: string;
+  sampledArticles: number;
+  failedArticles: number;
+  articles: number;
+  redirects: number;
+  media: number;
+  downloadBytes: number;
+  zimBytes: number;
+}
+
+const toMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/* Reservoir sampling: exactly sampleSize ids, each article having the same chance whatever the order of the keys */
+async function getSampleArticleIds(downloader: Downloader, sampleSize: number) {
+  const articleIds: string[] = [];
+  let seen = 0;
+  await articleDetailXId.iterateItems(downloader.speed, async (articleDetails) => {
+    for (const articleId of Object.keys(articleDetails)) {
+      seen += 1;
+      if (articleIds.length < sampleSize) {
+        articleIds.push(articleId);
+      } else {
+        const index = Math.floor(Math.random() * seen);
+        if (index < sampleSize) {
+          articleIds[index] = articleId;
+        }
+      }
+    }
+  });
+  return articleIds;
+}
+
+/*
+ * Sizes a dump by rendering a sample of its articles and downloading their
+ * media, then extrapolating to all the articles. Media shared by several
+ * articles are only downloaded once by a real scrape, so the media counts
+ * and sizes are rather upper bounds.
+ */
+export async function estimateDump(dump: Dump, downloader: Downloader, mw: MediaWiki, sampleRate: number): Promise<DumpEstimate> {
+  const articles = await articleDetailXId.len();
+  const redirects = await redirectsXId.len();
+  const sampleSize = Math.min(articles, Math.max(MIN_SAMPLE_SIZE, Math.ceil(articles * sampleRate)));
+  const articleIds = await getSampleArticleIds(downloader, sampleSize);
+  const flavour = dump.computeFlavour().replace(/^_/, '') || 'full';
+  logger.log(`Estimating [${flavour}] dump from [${articleIds.length}/${articles}] articles`);
+
+  let htmlBytes = 0;
+  let failedArticles = 0;
+  const mediaUrls = new Map<string, string>();
+  await pmap(articleIds, async (articleId) => {
+    try {
+      const rets = await downloader.getArticle(articleId, dump);
+      for (const { articleId: renderedArticleId, html } of rets) {
+        if (!html) {
+          continue;
+        }
+        htmlBytes += Buffer.byteLength(html);
+        const { mediaDependencies } = await treatMedias(domino.createDocument(html), mw, dump, renderedArticleId, downloader);
+        for (const url of mediaDependencies.filter((a) => a)) {
+          mediaUrls.set(getMediaBase(url, false), url);
+        }
+      }
+    } catch (err) {
+      failedArticles += 1;
+      logger.warn(`Failed to estimate article [${articleId}]`, err);
+    }
+  }, { concurrency: downloader.speed });
+
+  let mediaDownloadBytes = 0;
+  let mediaZimBytes = 0;
+  await pmap(Array.from(mediaUrls.values()), async (url) => {
+    try {
+      const { content, responseHeaders } = await downloader.downloadContent(url);
+      mediaDownloadBytes += Number(responseHeaders['content-length']) || content.length;
+      mediaZimBytes += content.length;
+    } catch (err) {
+      logger.warn(`Failed to estimate media [${url}]`, err);
+    }
+  }, { concurrency: downloader.speed });
+
+  const sampled = Math.max(articleIds.length - failedArticles, 1);
+  const extrapolate = (value: number) => Math.round(value * articles / sampled);
+  const estimate: DumpEstimate = {
+    flavour,
+    sampledArticles: articleIds.length,
+    failedArticles,
+    articles,
+    redirects,
+    media: extrapolate(mediaUrls.size),
+    downloadBytes: extrapolate(htmlBytes + mediaDownloadBytes),
+    zimBytes: extrapolate(htmlBytes * HTML_COMPRESSION_RATIO + mediaZimBytes),
+  };
+  logger.log(`Estimate for [${estimate.flavour}] dump: [${estimate.articles}] articles, [${estimate.redirects}] redirects, `
+    + `[${estimate.media}] media, [${toMB(estimate.downloadBytes)}] to download, ZIM of [${toMB(estimate.zimBytes)}]`);
+  return estimate;
+}
+
+export async function writeEstimate(dump: Dump, estimate: DumpEstimate) {
+  const estimatePath = pathParser.resolve(dump.opts.outputDirectory, `${dump.computeFilenameRadical()}.estimate.json`);
+  await fs.promises.writeFile(estimatePath, JSON.stringify(estimate, null, '\t'));
+  logger.log(`Wrote estimate to [${estimatePath}]`);
+}
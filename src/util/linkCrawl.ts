@@ -0,0 +1,94 @@
+import fs from 'fs';
+import pmap from 'p-map';
+import logger from '../Logger';
+import MediaWiki from '../MediaWiki';
+import Downloader from '../Downloader';
+
+export const DEFAULT_CRAWL_MAX_ARTICLES = 10000;
+
+/* Maximum number of titles of one API query */
+const TITLES_BATCH_SIZE = 50;
+
+export interface LinkCrawlOpts {
+  /* Titles to start from */
+  seeds: string[];
+  /* Number of links to follow from the seeds */
+  hops: number;
+  maxArticles: number;
+}
+
+/* Links to the given namespaces of each existing page, by page title once redirects are followed */
+async function getPageLinks(titles: string[], downloader: Downloader, mw: MediaWiki, namespaces: number[]) {
+  const links = new Map<string, Set<string>>();
+  const batches: string[][] = [];
+  for (let i = 0; i < titles.length; i += TITLES_BATCH_SIZE) {
+    batches.push(titles.slice(i, i + TITLES_BATCH_SIZE));
+  }
+
+  await pmap(batches, async (batch) => {
+    let continueStr = '';
+    do {
+      const resp = await downloader.getJSON<any>(mw.pageLinksApiUrl(batch, namespaces, continueStr));
+      const pages: any[] = resp.query && resp.query.pages ? Object.values(resp.query.pages) : [];
+      for (const page of pages.filter((p) => !p.hasOwnProperty('missing') && !p.hasOwnProperty('invalid'))) {
+        const pageLinks = links.get(page.title) || new Set<string>();
+        (page.links || []).forEach(({ title }: { title: string }) => pageLinks.add(title));
+        links.set(page.title, pageLinks);
+      }
+      continueStr = resp.continue ? resp.continue.plcontinue : '';
+    } while (continueStr);
+  }, { concurrency: downloader.speed });
+
+  return links;
+}
+
+/*
+ * Article ids of the pages reachable from the seeds in a number of hops,
+ * following the wiki links to the namespaces to mirror. When there are more
+ * linked pages than the budget allows, the ones with the most links from the
+ * pages already crawled are kept. Titles of the last hop are not fetched, so
+ * they may still be redirects.
+ */
+export async function crawlArticleIds(downloader: Downloader, mw: MediaWiki, opts: LinkCrawlOpts) {
+  const namespaces = mw.namespacesToMirror.map((name) => mw.namespaces[name].num);
+  const selected = new Set<string>();
+  const crawled = new Set<string>();
+  const inboundLinks = new Map<string, number>();
+  let level = Array.from(new Set(opts.seeds.map((seed) => seed.trim().replace(/_/g, ' ')))).slice(0, opts.maxArticles);
+  level.forEach((title) => selected.add(title));
+
+  for (let hop = 0; hop < opts.hops && level.length; hop += 1) {
+    logger.log(`Getting links of [${level.length}] pages at hop [${hop}]`);
+    const links = await getPageLinks(level, downloader, mw, namespaces);
+
+    /* Missing pages are dropped and redirects replaced by their target */
+    level.forEach((title) => {
+      selected.delete(title);
+      crawled.add(title);
+    });
+    links.forEach((_, title) => {
+      selected.add(title);
+      crawled.add(title);
+    });
+
+    for (const pageLinks of links.values()) {
+      for (const title of pageLinks) {
+        inboundLinks.set(title, (inboundLinks.get(title) || 0) + 1);
+      }
+    }
+
+    level = Array.from(inboundLinks.keys())
+      .filter((title) => !selected.has(title) && !crawled.has(title))
+      .sort((a, b) => inboundLinks.get(b) - inboundLinks.get(a))
+      .slice(0, Math.max(opts.maxArticles - selected.size, 0));
+    level.forEach((title) => selected.add(title));
+  }
+
+  logger.log(`Found [${selected.size}] articles in [${opts.hops}] hops from [${opts.seeds.length}] seeds`);
+  return Array.from(selected).map((title) => title.replace(/ /g, '_'));
+}
+
+export async function writeArticleList(path: string, articleIds: string[]) {
+  await fs.promises.writeFile(path, articleIds.join('\n') + '\n');
+  logger.log(`Wrote [${articleIds.length}] article ids to [${path}], it can be used as --articleList`);
+}
@@ -5,12 +5,13 @@ import countryLanguage from 'country-language';
 import fs from 'fs';
 import mkdirp from 'mkdirp';
 import pathParser from 'path';
-import { ZimCreator, ZimArticle } from '@openzim/libzim';
+import { ZimArticle } from '@openzim/libzim';
 import { Config, config } from '../config';
 import logger from '../Logger';
 import { MEDIA_REGEX, FIND_HTTP_REGEX, IMAGE_URL_REGEX, BITMAP_IMAGE_MIME_REGEX, IMAGE_MIME_REGEX,
-   WEBP_CANDIDATE_IMAGE_FILENAME_REGEX, WEBP_CANDIDATE_IMAGE_MIME_TYPE } from './const';
+   WEBP_CANDIDATE_IMAGE_FILENAME_REGEX, WEBP_CANDIDATE_IMAGE_MIME_TYPE, MEDIAWIKI_LANG_ISO3 } from './const';
 import { boolean } from 'yargs';
+import type { OutputWriter } from './OutputWriter';
 
 export function isValidEmail(email: string) {
   const emailRegex = /^(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
@@ -144,7 +145,7 @@ export function interpolateTranslationString(str: string, parameters: { [key: st
   return newString;
 }
 
-export function saveStaticFiles(config: Config, zimCreator: ZimCreator) {
+export function saveStaticFiles(config: Config, zimCreator: OutputWriter) {
   const cssPromises = config.output.cssResources
     .concat(config.output.mainPageCssResources)
     .map(async (css) => {
@@ -196,7 +197,7 @@ export function genCanonicalLink(config: Config, webUrl: string, articleId: stri
   return `<link rel="canonical" href="${webUrl}${encodeURIComponent(articleId)}" />`;
 }
 
-export function getDumps(format: boolean | boolean[]) {
+export function getDumps(format: string | boolean | Array<string | boolean>) {
   let dumps: any[];
   if (format) {
     if (format instanceof Array) {
@@ -215,6 +216,13 @@ export function getDumps(format: boolean | boolean[]) {
 }
 
 export function getIso3(langIso2: string): Promise<string> {
+  if (MEDIAWIKI_LANG_ISO3[langIso2]) {
+    return Promise.resolve(MEDIAWIKI_LANG_ISO3[langIso2]);
+  }
+  /* MediaWiki uses the ISO 639-3 code of the languages without ISO 639-1 one */
+  if (/^[a-z]{3}$/.test(langIso2)) {
+    return Promise.resolve(langIso2);
+  }
   return new Promise((resolve, reject) => {
     countryLanguage.getLanguage(langIso2, (error: any, language: KVS<any>) => {
       if (error || !language.iso639_3) {
@@ -359,4 +367,13 @@ export function shouldConvertImageFilenameToWebp(url: string, webp: boolean) {
 
 export function isWebpCandidateImageMimeType(webp: boolean, content_type: string) {
   return webp && WEBP_CANDIDATE_IMAGE_MIME_TYPE.test(content_type);
+}
+
+/* With --avif, the same jpeg and png images get an AVIF version next to the optimised original */
+export function shouldAddAvifImageFilename(url: string, avif: boolean) {
+  return avif && WEBP_CANDIDATE_IMAGE_FILENAME_REGEX.test(url);
+}
+
+export function isAvifCandidateImageMimeType(avif: boolean, content_type: string) {
+  return avif && WEBP_CANDIDATE_IMAGE_MIME_TYPE.test(content_type);
 }
\ No newline at end of file
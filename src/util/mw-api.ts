@@ -3,12 +3,14 @@ import deepmerge = require('deepmerge');
 import logger from '../Logger';
 import Downloader from '../Downloader';
 import { articleDetailXId, redirectsXId } from '../stores';
+import { Progress } from './Progress';
 
 export async function getArticlesByIds(_articleIds: string[], downloader: Downloader, log = true): Promise<void> {
     let from = 0;
     let numArticleIds = _articleIds.length;
     let numThumbnails = 0;
     let batchSize = 30;
+    const progress = log ? new Progress('getting article details', numArticleIds) : null;
 
     // using async iterator to spawn workers
     await pmap(
@@ -17,10 +19,7 @@ export async function getArticlesByIds(_articleIds: string[], downloader: Downlo
             while (from < numArticleIds) {
                 const articleIds = _articleIds.slice(from, from + batchSize);
                 const to = from + articleIds.length;
-                if (log) {
-                    const progressPercent = Math.floor(to / numArticleIds * 100);
-                    logger.log(`Worker [${workerId}] getting article range [${from}-${to}] of [${numArticleIds}] [${progressPercent}%]`);
-                }
+                logger.info(`Worker [${workerId}] getting article range [${from}-${to}] of [${numArticleIds}]`);
                 from = to;
 
                 try {
@@ -53,11 +52,14 @@ export async function getArticlesByIds(_articleIds: string[], downloader: Downlo
                             ),
                         );
 
+                        if (progress) {
+                            progress.tick(articleIds.length);
+                        }
                     }
                 } catch (err) {
                     if (batchSize < 10) {
-                        logger.error(`Failed to get article ids and batch size is less than 10. Skipping batch...`, err);
-                        process.exit(1);
+                        logger.error(`Failed to get article ids and batch size is less than 10`, err);
+                        throw err;
                     } else {
                         _articleIds = _articleIds.concat(articleIds);
                         numArticleIds = _articleIds.length;
@@ -69,10 +71,14 @@ export async function getArticlesByIds(_articleIds: string[], downloader: Downlo
         },
         {concurrency: downloader.speed}
     );
+    if (progress) {
+        progress.end();
+    }
 }
 
 export async function getArticlesByNS(ns: number, downloader: Downloader, continueLimit?: number): Promise<void> {
     let totalArticles = 0;
+    const progress = new Progress(`getting article details of namespace [${ns}]`);
     let chunk: { articleDetails: QueryMwRet, gapContinue: string };
 
     do {
@@ -93,13 +99,15 @@ export async function getArticlesByNS(ns: number, downloader: Downloader, contin
         }
 
         const numDetails = Object.keys(chunk.articleDetails).length;
-        logger.log(`Got [${numDetails}] articles chunk from namespace [${ns}]`);
+        logger.info(`Got [${numDetails}] articles chunk from namespace [${ns}]`);
         totalArticles += numDetails;
+        progress.tick(numDetails);
 
         // Only for testing purposes
         if (--(continueLimit as number) < 0) break;
     } while (chunk.gapContinue);
 
+    progress.end();
     logger.log(`A total of [${totalArticles}] articles has been found in namespace [${ns}]`);
 }
 
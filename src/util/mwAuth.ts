@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+/*
+ * Owner-only OAuth consumer of the wiki (Special:OAuthConsumerRegistration):
+ * OAuth 2 only needs the access token, OAuth 1.0a needs the four keys.
+ */
+export interface MwOAuthCredentials {
+  consumerKey?: string;
+  consumerSecret?: string;
+  accessToken: string;
+  accessSecret?: string;
+}
+
+export function isOAuth1(credentials: MwOAuthCredentials) {
+  return !!(credentials.consumerKey && credentials.consumerSecret && credentials.accessSecret);
+}
+
+/* RFC 3986 encoding, stricter than encodeURIComponent */
+function percentEncode(str: string) {
+  return encodeURIComponent(str).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function compare(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/* OAuth 1.0a HMAC-SHA1 signature (RFC 5849) of the request, its query and its urlencoded body */
+export function oauth1Header(
+  method: string,
+  url: string,
+  form: KVS<string>,
+  credentials: MwOAuthCredentials,
+  nonce = crypto.randomBytes(16).toString('hex'),
+  timestamp = Math.floor(Date.now() / 1000),
+) {
+  const { origin, pathname, searchParams } = new URL(url);
+  const oauthParams: KVS<string> = {
+    oauth_consumer_key: credentials.consumerKey,
+    oauth_nonce: nonce,
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: String(timestamp),
+    oauth_token: credentials.accessToken,
+    oauth_version: '1.0',
+  };
+  const query: Array<[string, string]> = [];
+  searchParams.forEach((value, key) => query.push([key, value]));
+  const params = [...query, ...Object.entries(form), ...Object.entries(oauthParams)]
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => keyA === keyB ? compare(valueA, valueB) : compare(keyA, keyB))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const baseString = [method.toUpperCase(), percentEncode(`${origin}${pathname}`), percentEncode(params)].join('&');
+  const signingKey = `${percentEncode(credentials.consumerSecret)}&${percentEncode(credentials.accessSecret)}`;
+  const signature = crypto.createHmac('sha1', signingKey).update(baseString).digest('base64');
+  const headerParams = Object.entries({ ...oauthParams, oauth_signature: signature })
+    .map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`);
+  return `OAuth ${headerParams.join(', ')}`;
+}
+
+export function authorizationHeader(credentials: MwOAuthCredentials, method: string, url: string, form: KVS<string> = {}) {
+  return isOAuth1(credentials)
+    ? oauth1Header(method, url, form, credentials)
+    : `Bearer ${credentials.accessToken}`;
+}
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import pmap from 'p-map';
+import readline from 'readline';
+import logger from '../Logger';
+import MediaWiki from '../MediaWiki';
+import Downloader from '../Downloader';
+import { articleDetailXId } from '../stores';
+
+/* Maximum number of titles of one API query */
+const TITLES_BATCH_SIZE = 50;
+
+export interface PopularitySignals {
+  inboundLinks: number;
+  /* In bytes of wikitext */
+  length: number;
+  langLinks: number;
+  pageviews: number;
+}
+
+export interface PopularityOpts {
+  /* Pageview dump, with "<project> <title> <views> ..." or "<title> <views>" lines, optionally gzipped */
+  pageviewsFile?: string;
+  /* Projects of the pageview dump lines to count (e.g. "en" and "en.m"), all if empty */
+  pageviewsProjects?: string[];
+}
+
+/*
+ * Signals are combined on a log scale, so that a page needs to be good on
+ * several of them to rank high rather than huge on one.
+ */
+export function popularityScore({ inboundLinks, length, langLinks, pageviews }: PopularitySignals) {
+  return Math.log1p(inboundLinks) + Math.log1p(length / 1000) + Math.log1p(langLinks) + Math.log1p(pageviews);
+}
+
+/* Views of the candidate articles in a pageview dump */
+export async function readPageviews(path: string, articleIds: Set<string>, projects: string[] = []) {
+  const pageviews = new Map<string, number>();
+  const input = fs.createReadStream(path);
+  const lines = readline.createInterface({ input: path.endsWith('.gz') ? input.pipe(zlib.createGunzip()) : input, crlfDelay: Infinity });
+  await new Promise((resolve, reject) => {
+    lines.on('line', (line: string) => {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 2) {
+        return;
+      }
+      const [project, title, views] = fields.length === 2 ? [null, ...fields] : fields;
+      if (project && projects.length && !projects.includes(project)) {
+        return;
+      }
+      if (articleIds.has(title) && Number(views) > 0) {
+        pageviews.set(title, (pageviews.get(title) || 0) + Number(views));
+      }
+    });
+    lines.on('close', resolve);
+    input.on('error', reject);
+  });
+  return pageviews;
+}
+
+/* API signals of a batch of articles, following the continuation of the link lists */
+async function getApiSignals(articleIds: string[], downloader: Downloader, mw: MediaWiki, namespaces: number[]) {
+  const signals = new Map<string, PopularitySignals>();
+  let continueOpts: KVS<string> = {};
+  do {
+    const resp = await downloader.getJSON<any>(mw.popularityApiUrl(articleIds, namespaces, continueOpts));
+    const pages: any[] = resp.query && resp.query.pages ? Object.values(resp.query.pages) : [];
+    for (const page of pages.filter((p) => !p.hasOwnProperty('missing'))) {
+      const articleId = page.title.replace(/ /g, '_');
+      const signal = signals.get(articleId) || { inboundLinks: 0, length: page.length || 0, langLinks: 0, pageviews: 0 };
+      signal.inboundLinks += (page.linkshere || []).length;
+      signal.langLinks += (page.langlinks || []).length;
+      signals.set(articleId, signal);
+    }
+    continueOpts = resp.continue || null;
+  } while (continueOpts);
+  return signals;
+}
+
+/* Article ids of the store, from the most to the least popular */
+export async function rankArticles(downloader: Downloader, mw: MediaWiki, opts: PopularityOpts = {}) {
+  const namespaces = mw.namespacesToMirror.map((name) => mw.namespaces[name].num);
+  const articleIds = new Set<string>();
+  await articleDetailXId.iterateItems(downloader.speed, async (articleDetails) => {
+    Object.keys(articleDetails).forEach((articleId) => articleIds.add(articleId));
+  });
+
+  const pageviews = opts.pageviewsFile ? await readPageviews(opts.pageviewsFile, articleIds, opts.pageviewsProjects) : new Map<string, number>();
+
+  const batches: string[][] = [];
+  const allIds = Array.from(articleIds);
+  for (let i = 0; i < allIds.length; i += TITLES_BATCH_SIZE) {
+    batches.push(allIds.slice(i, i + TITLES_BATCH_SIZE));
+  }
+  logger.log(`Ranking [${allIds.length}] articles by popularity`);
+
+  const scores = new Map<string, number>();
+  await pmap(batches, async (batch) => {
+    const signals = await getApiSignals(batch, downloader, mw, namespaces);
+    for (const articleId of batch) {
+      const signal = signals.get(articleId) || { inboundLinks: 0, length: 0, langLinks: 0, pageviews: 0 };
+      signal.pageviews = pageviews.get(articleId) || 0;
+      scores.set(articleId, popularityScore(signal));
+    }
+  }, { concurrency: downloader.speed });
+
+  return allIds.sort((a, b) => scores.get(b) - scores.get(a));
+}
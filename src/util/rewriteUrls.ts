@@ -7,7 +7,8 @@ import MediaWiki from '../MediaWiki';
 import DU from '../DOMUtils';
 import logger from '../Logger';
 
-export async function removeLinksToUnmirroredArticles(mw: MediaWiki, dump: Dump, linkNode: DominoElement, href: string) {
+/* Returns the title of the article if its link is removed */
+export async function removeLinksToUnmirroredArticles(mw: MediaWiki, dump: Dump, linkNode: DominoElement, href: string): Promise<string> {
     const title = mw.extractPageTitleFromHref(href);
     if (!title) {
         return;
@@ -25,12 +26,13 @@ export async function removeLinksToUnmirroredArticles(mw: MediaWiki, dump: Dump,
         } else {
             migrateChildren(linkNode, linkNode.parentNode, linkNode);
             linkNode.parentNode.removeChild(linkNode);
+            return title;
         }
         return;
     }
 }
 
-export async function rewriteUrl(articleId: string, mw: MediaWiki, dump: Dump, linkNode: DominoElement): Promise<{ mediaDependencies: string[] }> {
+export async function rewriteUrl(articleId: string, mw: MediaWiki, dump: Dump, linkNode: DominoElement): Promise<{ mediaDependencies: string[], unmirroredLink?: string }> {
     let rel = linkNode.getAttribute('rel');
     let href = linkNode.getAttribute('href') || '';
     let hrefProtocol = urlParser.parse(href).protocol;
@@ -164,12 +166,18 @@ export async function rewriteUrl(articleId: string, mw: MediaWiki, dump: Dump, l
                 }
                 return { mediaDependencies };
             } else if (rel === 'mw:WikiLink' || rel === 'mw:referencedBy') {
-                await removeLinksToUnmirroredArticles(mw, dump, linkNode, href);
+                const unmirroredLink = await removeLinksToUnmirroredArticles(mw, dump, linkNode, href);
+                if (unmirroredLink) {
+                    return { mediaDependencies, unmirroredLink };
+                }
             } else {
                 return { mediaDependencies };
             }
         } else { // This is MediaWiki HTML
-            await removeLinksToUnmirroredArticles(mw, dump, linkNode, href);
+            const unmirroredLink = await removeLinksToUnmirroredArticles(mw, dump, linkNode, href);
+            if (unmirroredLink) {
+                return { mediaDependencies, unmirroredLink };
+            }
         }
 
         if (articleId.includes('/')) {
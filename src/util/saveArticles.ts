@@ -1,7 +1,7 @@
 import logger from '../Logger';
 import Downloader from '../Downloader';
 import MediaWiki from '../MediaWiki';
-import { ZimArticle, ZimCreator } from '@openzim/libzim';
+import { ZimArticle } from '@openzim/libzim';
 import htmlMinifier from 'html-minifier';
 import * as QueryStringParser from 'querystring';
 
@@ -12,16 +12,24 @@ import { Dump } from '../Dump';
 import { contains, genCanonicalLink, genHeaderCSSLink, genHeaderScript, getFullUrl, getMediaBase, jsPath } from '.';
 import { config } from '../config';
 import { footerTemplate, htmlTemplateCode } from '../Templates';
-import { articleDetailXId, filesToDownloadXPath, filesToRetryXPath } from '../stores';
-import { getRelativeFilePath, getSizeFromUrl, encodeArticleIdForZimHtmlUrl, interpolateTranslationString, shouldConvertImageFilenameToWebp } from './misc';
-import { RedisKvs } from './RedisKvs';
+import { articleDetailXId, articlesToRetryXId, filesToDownloadXPath, filesToRetryXPath, redirectsXId } from '../stores';
+import { queueArticleRetry, retryArticles } from './articleRetry';
+import { writeArticleList } from './linkCrawl';
+import { getRelativeFilePath, getSizeFromUrl, encodeArticleIdForZimHtmlUrl, interpolateTranslationString, shouldConvertImageFilenameToWebp, shouldAddAvifImageFilename } from './misc';
+import type { Kvs } from './Kvs';
 import { rewriteUrl } from './rewriteUrls';
 import { CONCURRENCY_LIMIT } from './const';
+import { PreviousZim, UnchangedArticle } from './PreviousZim';
+import type { OutputWriter } from './OutputWriter';
+import type { ZimArticleOpts } from './Checkpoint';
+import { RunReport } from './RunReport';
+import { throwIfAborted } from './ScrapeEvents';
+import { Progress } from './Progress';
 
 const genericJsModules = config.output.mw.js;
 const genericCssModules = config.output.mw.css;
 
-type FileStore = RedisKvs<{
+type FileStore = Kvs<{
     url: string;
     namespace?: string;
     mult?: number;
@@ -29,55 +37,74 @@ type FileStore = RedisKvs<{
 }>;
 
 
-export async function downloadFiles(fileStore: FileStore, zimCreator: ZimCreator, dump: Dump, downloader: Downloader, retryLater = true) {
+export async function downloadFiles(fileStore: FileStore, zimCreator: OutputWriter, dump: Dump, downloader: Downloader, retryLater = true) {
     const filesForAttempt = await fileStore.len();
     const filesTotal = filesForAttempt + dump.status.files.success + dump.status.files.fail;
 
     logger.log(`${retryLater ? '' : 'RE-'}Downloading a total of [${retryLater ? filesTotal : filesForAttempt}] files...`);
-    let prevPercentProgress: string;
+    const progress = new Progress(retryLater ? 'downloading files' : 'downloading files again', filesTotal, dump.status.files.success + dump.status.files.fail);
 
     await fileStore.iterateItems(downloader.speed, async (fileDownloadPairs, workerId) => {
+        throwIfAborted(dump.signal);
         logger.info(`Worker [${workerId}] processing batch of [${Object.keys(fileDownloadPairs).length}] files`);
 
         // todo align fileDownloadPairs and listOfArguments
         const listOfArguments = [];
         for (const [path, { url, namespace, mult, width }] of Object.entries(fileDownloadPairs)) {
+            if (dump.checkpoint && dump.checkpoint.isFileDone(path)) {
+                continue;
+            }
             listOfArguments.push({ path, url, namespace, mult, width });
         }
 
-        const responses = await downloadBulk(listOfArguments, downloader);
+        const responses = await downloadBulk(listOfArguments, downloader, dump);
         for (const resp of responses) {
             let isFailed = false;
             try {
                 if (resp.result && resp.result.content) {
-                    const article = new ZimArticle({ url: resp.path, data: resp.result.content, ns: resp.namespace || 'I' });
-                    zimCreator.addArticle(article);
+                    const articleOpts = { url: resp.path, data: resp.result.content, ns: resp.namespace || 'I' };
+                    zimCreator.addArticle(new ZimArticle(articleOpts));
+                    /* AVIF version of the image, for the <source> of its <picture> */
+                    const avifOpts = resp.result.avifContent ? { url: `${resp.path}.avif`, data: resp.result.avifContent, ns: articleOpts.ns } : null;
+                    if (avifOpts) {
+                        zimCreator.addArticle(new ZimArticle(avifOpts));
+                    }
                     dump.status.files.success += 1;
+                    dump.events.emit('fileDone', { path: resp.path, url: downloader.deserializeUrl(resp.url), success: true });
+                    if (dump.checkpoint) {
+                        if (avifOpts) {
+                            await dump.checkpoint.recordFile(`${resp.key}.avif`, avifOpts);
+                        }
+                        await dump.checkpoint.recordFile(resp.key, articleOpts);
+                    }
                 } else {
                     isFailed = true;
+                    resp.error = resp.error || new Error('No content downloaded');
                 }
             } catch (err) {
                 isFailed = true;
+                resp.error = resp.error || err;
             } finally {
                 if (isFailed) {
                     // todo don't queue 404 for retry
                     if (retryLater) {
                         await filesToRetryXPath.set(resp.path, { url: resp.url, namespace: resp.namespace, mult: resp.mult, width: resp.width });
                     } else {
-                        logger.warn(`Error downloading file [${downloader.deserializeUrl(resp.url)}], skipping`);
+                        const url = downloader.deserializeUrl(resp.url);
+                        logger.withContext({ url, status: resp.error?.response?.status }).warn(`Error downloading file [${url}], skipping`);
                         dump.status.files.fail += 1;
+                        dump.report.addFailedMedia(resp.path, url, resp.error);
+                        dump.events.emit('fileDone', { path: resp.path, url, success: false, reason: RunReport.reason(resp.error) });
+                        if (dump.checkpoint) {
+                            await dump.checkpoint.markFileFailed(resp.key);
+                        }
                     }
                 }
             }
-            if ((dump.status.files.success + dump.status.files.fail) % 10 === 0) {
-                const percentProgress = ((dump.status.files.success + dump.status.files.fail) / filesTotal * 100).toFixed(1);
-                if (percentProgress !== prevPercentProgress) {
-                    prevPercentProgress = percentProgress;
-                    logger.log(`Progress downloading files [${dump.status.files.success + dump.status.files.fail}/${filesTotal}] [${percentProgress}%]`);
-                }
-            }
+            progress.tick();
         }
     });
+    progress.end();
 
     if (retryLater) {
         const isThereAnythingToRetry = (await filesToRetryXPath.len()) > 0;
@@ -91,7 +118,7 @@ export async function downloadFiles(fileStore: FileStore, zimCreator: ZimCreator
     logger.log(`Done with ${retryLater ? '' : 'RE-'}Downloading a total of [${retryLater ? filesTotal : filesForAttempt}] files`);
 }
 
-async function downloadBulk(listOfArguments: any[], downloader: Downloader): Promise<any> {
+async function downloadBulk(listOfArguments: any[], downloader: Downloader, dump: Dump): Promise<any> {
     try {
         // Enhance arguments array to have an index of the argument at hand
         const argsCopy = [].concat(listOfArguments.map((val, ind) => ({ val, ind })));
@@ -105,17 +132,22 @@ async function downloadBulk(listOfArguments: any[], downloader: Downloader): Pro
             argList,
             async (arg) => {
                 const resp: any = {};
+                resp.key = arg.val.path;
                 resp.path = arg.val.path;
                 resp.url = arg.val.url;
                 resp.namespace = arg.val.namespace;
                 resp.mult = arg.val.mult;
                 resp.width = arg.val.width;
 
-                return downloader.downloadContent(arg.val.url).then((r) => {
+                const download = dump.previousZim && PreviousZim.isPreviousZimUrl(arg.val.url)
+                    ? dump.previousZim.getFile(arg.val.url)
+                    : downloader.downloadContent(arg.val.url);
+                return download.then((r) => {
                     resp.result = r;
                     resp.path += resp.result.responseHeaders.path_postfix || '';
                     return resp;
                 }).catch((err) => {
+                    resp.error = err;
                     return resp;
                 });
             },
@@ -131,6 +163,10 @@ async function getAllArticlesToKeep(downloader: Downloader, mw: MediaWiki, dump:
         downloader.speed,
         async (articleKeyValuePairs) => {
             for (const [articleId] of Object.entries(articleKeyValuePairs)) {
+                if (dump.checkpoint && dump.checkpoint.isArticleDone(articleId)) {
+                    continue;
+                }
+
                 try {
                     const rets = await downloader.getArticle(articleId, dump);
 
@@ -153,119 +189,225 @@ async function getAllArticlesToKeep(downloader: Downloader, mw: MediaWiki, dump:
     );
 }
 
-export async function saveArticles(zimCreator: ZimCreator, downloader: Downloader, mw: MediaWiki, dump: Dump) {
-    const jsModuleDependencies = new Set<string>();
-    const cssModuleDependencies = new Set<string>();
-    let jsConfigVars = '';
-    let prevPercentProgress: string;
+export async function saveArticles(zimCreator: OutputWriter, downloader: Downloader, mw: MediaWiki, dump: Dump) {
+    const { checkpoint } = dump;
+    const jsModuleDependencies = new Set<string>(checkpoint ? checkpoint.jsModules : []);
+    const cssModuleDependencies = new Set<string>(checkpoint ? checkpoint.cssModules : []);
+    let jsConfigVars = checkpoint ? checkpoint.jsConfigVars : '';
 
 
     const articlesTotal = await articleDetailXId.len();
+    const progress = new Progress('rendering articles', articlesTotal, dump.status.articles.success + dump.status.articles.fail);
 
-    if (dump.customProcessor?.shouldKeepArticle) {
-        await getAllArticlesToKeep(downloader, mw, dump);
-    }
+    const addModuleDependencies = async (jsDependenciesList: string[], styleDependenciesList: string[]) => {
+        for (const dep of jsDependenciesList) {
+            if (checkpoint && !jsModuleDependencies.has(dep)) {
+                await checkpoint.recordModule('js', dep);
+            }
+            jsModuleDependencies.add(dep);
+        }
+        for (const dep of styleDependenciesList) {
+            if (checkpoint && !cssModuleDependencies.has(dep)) {
+                await checkpoint.recordModule('css', dep);
+            }
+            cssModuleDependencies.add(dep);
+        }
+    };
 
-    await articleDetailXId.iterateItems(
-        downloader.speed,
-        async (articleKeyValuePairs, workerId) => {
-            logger.info(`Worker [${workerId}] processing batch of article ids [${logger.logifyArray(Object.keys(articleKeyValuePairs))}]`);
-            for (const [articleId, articleDetail] of Object.entries(articleKeyValuePairs)) {
-                try {
-                    const rets = await downloader.getArticle(articleId, dump);
+    /* Copy an article which has not been edited since the previous ZIM, with its media */
+    const reuseArticle = async (articleId: string, articleDetail: ArticleDetail, { html, title, files, jsModules, cssModules, unmirroredLinks }: UnchangedArticle) => {
+        for (const { path, url, namespace } of files) {
+            if (!await filesToDownloadXPath.get(path)) {
+                await filesToDownloadXPath.set(path, namespace ? { url, namespace } : { url });
+            }
+        }
+        await addModuleDependencies(jsModules, cssModules);
+
+        const zimArticleOpts = {
+            url: articleId,
+            data: html,
+            ns: 'A',
+            mimeType: 'text/html',
+            title,
+            shouldIndex: true,
+        };
+        zimCreator.addArticle(new ZimArticle(zimArticleOpts));
+        if (unmirroredLinks.length) {
+            await articleDetailXId.set(articleId, { ...articleDetail, unmirroredLinks });
+        }
+        dump.status.articles.success += 1;
+        dump.status.articles.reused += 1;
+        dump.events.emit('articleDone', { articleId, success: true });
+        if (checkpoint) {
+            await checkpoint.recordArticle(articleId, zimArticleOpts);
+        }
+    };
 
-                    for (const { articleId, displayTitle: articleTitle, html: articleHtml } of rets) {
-                        const nonPaginatedArticleId = articleDetail.title;
-                        if (!articleHtml) {
-                            logger.warn(`No HTML returned for article [${articleId}], skipping`);
-                            continue;
-                        }
+    /* Renders an article and its pages, throws on failure */
+    const saveArticle = async (articleId: string, articleDetail: ArticleDetail) => {
+        let unchangedArticle = dump.previousZim && articleDetail.ns !== 14
+            ? await dump.previousZim.getUnchangedArticle(articleId, 'A', articleDetail, downloader.webp)
+            : null;
+        if (unchangedArticle && await haveLinksChangedStatus(unchangedArticle)) {
+            logger.info(`Links of article [${articleId}] to other articles have changed, not reusing it`);
+            unchangedArticle = null;
+        }
+        if (unchangedArticle) {
+            await reuseArticle(articleId, articleDetail, unchangedArticle);
+        }
 
-                        const { articleDoc: _articleDoc, mediaDependencies, subtitles } = await processArticleHtml(articleHtml, downloader, mw, dump, articleId);
-                        let articleDoc = _articleDoc;
+        const rets = unchangedArticle ? [] : await downloader.getArticle(articleId, dump);
 
-                        if (!dump.isMainPage(articleId) && dump.customProcessor?.preProcessArticle) {
-                            articleDoc = await dump.customProcessor.preProcessArticle(articleId, articleDoc);
-                        }
+        /* The pages are written once all of them are rendered, a failed article being retried from its first page */
+        const renderedPages: ZimArticleOpts[] = [];
+        const unmirroredLinks = new Set<string>();
+        for (const { articleId, displayTitle: articleTitle, html: articleHtml } of rets) {
+            const nonPaginatedArticleId = articleDetail.title;
+            const ns = articleDetail.ns === 14 ? 'U' : 'A';
+            if (checkpoint && checkpoint.isZimArticleWritten(ns, articleId)) {
+                continue;
+            }
+            if (!articleHtml) {
+                logger.warn(`No HTML returned for article [${articleId}], skipping`);
+                continue;
+            }
 
-                        for (const dep of mediaDependencies) {
+            const { articleDoc: _articleDoc, mediaDependencies, subtitles, unmirroredLinks: pageUnmirroredLinks } = await processArticleHtml(articleHtml, downloader, mw, dump, articleId);
+            pageUnmirroredLinks.forEach((title) => unmirroredLinks.add(title));
+            let articleDoc = _articleDoc;
 
-                            const { mult, width } = getSizeFromUrl(dep.url);
+            if (!dump.isMainPage(articleId) && dump.customProcessor?.preProcessArticle) {
+                articleDoc = await dump.customProcessor.preProcessArticle(articleId, articleDoc);
+            }
 
-                            const existingVal = await filesToDownloadXPath.get(dep.path);
-                            const currentDepIsHigherRes = !existingVal || (existingVal.width < (width || 10e6)) || existingVal.mult < (mult || 1);
-                            if (currentDepIsHigherRes) {
-                                await filesToDownloadXPath.set(dep.path, { url: downloader.serializeUrl(dep.url), mult, width });
-                            }
-                        }
+            for (const dep of mediaDependencies) {
 
-                        for (const subtitle of subtitles) {
-                            await filesToDownloadXPath.set(subtitle.path, { url: subtitle.url, namespace: '-' });
-                        }
+                const { mult, width } = getSizeFromUrl(dep.url);
 
-                        const _moduleDependencies = await getModuleDependencies(nonPaginatedArticleId, mw, downloader);
+                const existingVal = await filesToDownloadXPath.get(dep.path);
+                const currentDepIsHigherRes = !existingVal || (existingVal.width < (width || 10e6)) || existingVal.mult < (mult || 1);
+                if (currentDepIsHigherRes) {
+                    await filesToDownloadXPath.set(dep.path, { url: downloader.serializeUrl(dep.url), mult, width });
+                }
+            }
 
-                        for (const dep of _moduleDependencies.jsDependenciesList) {
-                            jsModuleDependencies.add(dep);
-                        }
-                        for (const dep of _moduleDependencies.styleDependenciesList) {
-                            cssModuleDependencies.add(dep);
-                        }
+            for (const subtitle of subtitles) {
+                await filesToDownloadXPath.set(subtitle.path, { url: subtitle.url, namespace: '-' });
+            }
 
-                        jsConfigVars = jsConfigVars || _moduleDependencies.jsConfigVars[0];
+            const _moduleDependencies = await getModuleDependencies(nonPaginatedArticleId, mw, downloader);
+            await addModuleDependencies(_moduleDependencies.jsDependenciesList, _moduleDependencies.styleDependenciesList);
 
-                        let templatedDoc = await templateArticle(articleDoc, _moduleDependencies, mw, dump, articleId, articleDetail, downloader.webp);
+            if (!jsConfigVars) {
+                jsConfigVars = _moduleDependencies.jsConfigVars[0];
+                if (checkpoint) {
+                    await checkpoint.recordJsConfigVars(jsConfigVars);
+                }
+            }
 
-                        if (dump.customProcessor && dump.customProcessor.postProcessArticle) {
-                            templatedDoc = await dump.customProcessor.postProcessArticle(articleId, templatedDoc);
-                        }
+            let templatedDoc = await templateArticle(articleDoc, _moduleDependencies, mw, dump, articleId, articleDetail, downloader.webp);
 
-                        let outHtml = templatedDoc.documentElement.outerHTML;
-
-                        if (dump.opts.minifyHtml) {
-                            outHtml = htmlMinifier.minify(outHtml, {
-                                removeComments: true,
-                                conservativeCollapse: true,
-                                collapseBooleanAttributes: true,
-                                removeRedundantAttributes: true,
-                                removeEmptyAttributes: true,
-                                minifyCSS: true,
-                            });
-                        }
+            if (dump.customProcessor && dump.customProcessor.postProcessArticle) {
+                templatedDoc = await dump.customProcessor.postProcessArticle(articleId, templatedDoc);
+            }
 
-                        const finalHTML = `<!DOCTYPE html>\n` + outHtml;
+            let outHtml = templatedDoc.documentElement.outerHTML;
 
-                        const zimArticle = new ZimArticle({
-                            url: articleId,
-                            data: finalHTML,
-                            ns: articleDetail.ns === 14 ? 'U' : 'A',
-                            mimeType: 'text/html',
-                            title: articleTitle,
-                            shouldIndex: true,
-                        });
+            if (dump.opts.minifyHtml) {
+                outHtml = htmlMinifier.minify(outHtml, {
+                    removeComments: true,
+                    conservativeCollapse: true,
+                    collapseBooleanAttributes: true,
+                    removeRedundantAttributes: true,
+                    removeEmptyAttributes: true,
+                    minifyCSS: true,
+                });
+            }
 
-                        zimCreator.addArticle(zimArticle);
-                        dump.status.articles.success += 1;
-                    }
-                } catch (err) {
-                    dump.status.articles.fail += 1;
-                    logger.warn(`Error downloading article [${articleId}], skipping`, err);
-                    await articleDetailXId.delete(articleId);
+            const finalHTML = `<!DOCTYPE html>\n` + outHtml;
+
+            const zimArticleOpts = {
+                url: articleId,
+                data: finalHTML,
+                ns,
+                mimeType: 'text/html',
+                title: articleTitle,
+                shouldIndex: true,
+            };
+
+            renderedPages.push(zimArticleOpts);
+        }
+
+        for (const zimArticleOpts of renderedPages) {
+            zimCreator.addArticle(new ZimArticle(zimArticleOpts));
+            dump.status.articles.success += 1;
+            dump.events.emit('articleDone', { articleId: zimArticleOpts.url, success: true });
+            if (checkpoint) {
+                await checkpoint.recordArticle(zimArticleOpts.url, zimArticleOpts);
+            }
+        }
+        if (unmirroredLinks.size) {
+            await articleDetailXId.set(articleId, { ...articleDetail, unmirroredLinks: Array.from(unmirroredLinks) });
+        }
+        if (checkpoint) {
+            await checkpoint.markArticleDone(articleId);
+        }
+    };
+
+    if (dump.customProcessor?.shouldKeepArticle) {
+        await getAllArticlesToKeep(downloader, mw, dump);
+    }
+
+    await articleDetailXId.iterateItems(
+        downloader.speed,
+        async (articleKeyValuePairs, workerId) => {
+            logger.info(`Worker [${workerId}] processing batch of article ids [${logger.logifyArray(Object.keys(articleKeyValuePairs))}]`);
+            for (const [articleId, articleDetail] of Object.entries(articleKeyValuePairs)) {
+                if (checkpoint && checkpoint.isArticleDone(articleId)) {
+                    continue;
                 }
+                throwIfAborted(dump.signal);
 
-                if ((dump.status.articles.success + dump.status.articles.fail) % 10 === 0) {
-                    const percentProgress = ((dump.status.articles.success + dump.status.articles.fail) / articlesTotal * 100).toFixed(1);
-                    if (percentProgress !== prevPercentProgress) {
-                        prevPercentProgress = percentProgress;
-                        logger.log(`Progress downloading articles [${dump.status.articles.success + dump.status.articles.fail}/${articlesTotal}] [${percentProgress}%]`);
-                    }
+                try {
+                    await saveArticle(articleId, articleDetail);
+                } catch (err) {
+                    logger.withContext({ articleId }).info(`Error downloading article [${articleId}], queued for retry`, err);
+                    await queueArticleRetry(articleId, err);
                 }
+                progress.tick();
             }
         },
     );
+    progress.end();
+
+    const failedArticles = await retryArticles(downloader.speed, saveArticle);
+    for (const { articleId, attempts, reason } of failedArticles) {
+        dump.status.articles.fail += 1;
+        dump.report.addFailedArticle(articleId, reason);
+        dump.events.emit('articleDone', { articleId, success: false, reason: RunReport.reason(reason) });
+        logger.withContext({ articleId }).warn(`Error downloading article [${articleId}] [${attempts}] times, skipping: ${reason}`);
+        await articleDetailXId.delete(articleId);
+        if (checkpoint) {
+            await checkpoint.markArticleFailed(articleId);
+        }
+    }
+    await articlesToRetryXId.flush();
+
+    if (failedArticles.length && dump.outFile) {
+        await writeArticleList(`${dump.outFile}.failed.txt`, failedArticles.map(({ articleId }) => articleId));
+    }
+    const { articleFailureThreshold } = dump.opts;
+    if (articleFailureThreshold !== undefined && failedArticles.length > articleFailureThreshold * articlesTotal) {
+        throw new Error(`[${failedArticles.length}/${articlesTotal}] articles failed, more than the failure threshold of [${articleFailureThreshold}]`);
+    }
 
     logger.log(`Done with downloading a total of [${articlesTotal}] articles`);
 
+    /* Only unchanged articles, the config vars have not been fetched */
+    if (!jsConfigVars && dump.previousZim) {
+        jsConfigVars = await dump.previousZim.getJsConfigVars();
+    }
+
     const jsConfigVarArticle = new ZimArticle({ url: jsPath(config, 'jsConfigVars'), data: jsConfigVars, ns: '-' });
     zimCreator.addArticle(jsConfigVarArticle);
 
@@ -360,7 +502,8 @@ async function processArticleHtml(html: string, downloader: Downloader, mw: Medi
     return {
         articleDoc: doc,
         mediaDependencies,
-        subtitles
+        subtitles,
+        unmirroredLinks: ruRet.unmirroredLinks,
     };
 }
 
@@ -531,6 +674,11 @@ async function treatImage(mw: MediaWiki, dump: Dump, srcCache: KVS<boolean>, art
 
         /* Remove srcset */
         img.removeAttribute('srcset');
+
+        /* Readers without AVIF support fall back to the <img> */
+        if (shouldAddAvifImageFilename(newSrc, downloader.avif)) {
+            wrapInPicture(img, `${newSrc}.avif`);
+        }
     } catch (err) {
         DU.deleteNode(img);
     }
@@ -541,8 +689,24 @@ async function treatImage(mw: MediaWiki, dump: Dump, srcCache: KVS<boolean>, art
     return { mediaDependencies };
 }
 
+function wrapInPicture(img: DominoElement, avifSrc: string) {
+    const doc = img.ownerDocument;
+    const picture = doc.createElement('picture');
+    const source = doc.createElement('source');
+    source.setAttribute('srcset', avifSrc);
+    source.setAttribute('type', 'image/avif');
+    img.parentNode.replaceChild(picture, img);
+    picture.appendChild(source);
+    picture.appendChild(img);
+}
+
+/* Images with an AVIF version are moved along with their <picture> */
+function withPicture(image: DominoElement) {
+    return image.parentNode && image.parentNode.tagName === 'PICTURE' ? image.parentNode : image;
+}
+
 function isStillLinked(image: DominoElement) {
-    return image && image.parentNode && image.parentNode.tagName === 'A';
+    return image && withPicture(image).parentNode && withPicture(image).parentNode.tagName === 'A';
 }
 
 function shouldKeepNode(dump: Dump, imageNode: DominoElement, image: DominoElement) {
@@ -595,7 +759,7 @@ function treatImageFrames(mw: MediaWiki, dump: Dump, parsoidDoc: DominoElement,
         thumbcaptionDiv.innerHTML = description.innerHTML;
     }
 
-    thumbinnerDiv.appendChild(isStillLinked(image) ? image.parentNode : image);
+    thumbinnerDiv.appendChild(isStillLinked(image) ? withPicture(image).parentNode : withPicture(image));
     thumbinnerDiv.appendChild(thumbcaptionDiv);
     thumbDiv.appendChild(thumbinnerDiv);
 
@@ -634,6 +798,7 @@ export async function treatMedias(parsoidDoc: DominoElement, mw: MediaWiki, dump
 
 async function rewriteUrls(parsoidDoc: DominoElement, articleId: string, downloader: Downloader, mw: MediaWiki, dump: Dump) {
     let mediaDependencies: string[] = [];
+    const unmirroredLinks = new Set<string>();
     /* Go through all links */
     const as = parsoidDoc.getElementsByTagName('a');
     const areas = parsoidDoc.getElementsByTagName('area');
@@ -642,12 +807,15 @@ async function rewriteUrls(parsoidDoc: DominoElement, articleId: string, downloa
     await pmap(
         linkNodes,
         async (linkNode) => {
-            const { mediaDependencies: mediaDeps } = await rewriteUrl(articleId, mw, dump, linkNode);
+            const { mediaDependencies: mediaDeps, unmirroredLink } = await rewriteUrl(articleId, mw, dump, linkNode);
             mediaDependencies = mediaDependencies.concat(mediaDeps);
+            if (unmirroredLink) {
+                unmirroredLinks.add(unmirroredLink);
+            }
         },
         { concurrency: downloader.speed }
     );
-    return { doc: parsoidDoc, mediaDependencies };
+    return { doc: parsoidDoc, mediaDependencies, unmirroredLinks: Array.from(unmirroredLinks) };
 }
 
 export function applyOtherTreatments(parsoidDoc: DominoElement, dump: Dump) {
@@ -930,3 +1098,19 @@ function isSubpage(id: string, mw: MediaWiki) {
 export function isMirrored(id: string) {
     return articleDetailXId.get(id);
 }
+
+/* The HTML of a previous ZIM has the links of its own article list, removed if the article was missing */
+async function haveLinksChangedStatus({ links, unmirroredLinks }: UnchangedArticle) {
+    const isLinkTarget = async (title: string) => !!(await isMirrored(title) || await redirectsXId.get(title));
+    for (const title of links) {
+        if (!await isLinkTarget(title)) {
+            return true;
+        }
+    }
+    for (const title of unmirroredLinks) {
+        if (await isLinkTarget(title)) {
+            return true;
+        }
+    }
+    return false;
+}
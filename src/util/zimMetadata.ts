@@ -0,0 +1,56 @@
+import logger from '../Logger';
+
+/* Maximum lengths, in characters, of the openZIM metadata conventions */
+export const ZIM_METADATA_MAX_LENGTHS: KVS<number> = {
+  Title: 30,
+  Description: 80,
+  LongDescription: 4000,
+};
+
+/* Metadata an openZIM reader expects in every ZIM */
+const MANDATORY_METADATA = ['Name', 'Title', 'Language', 'Creator', 'Publisher', 'Date', 'Description'];
+
+const METADATA_FORMATS: KVS<RegExp> = {
+  Name: /^\S+$/,
+  /* ISO 639-3 codes, comma separated */
+  Language: /^[a-z]{3}(,[a-z]{3})*$/,
+  Date: /^\d{4}-\d{2}-\d{2}$/,
+};
+
+function length(value: string) {
+  return Array.from(value).length;
+}
+
+/*
+ * Checks the metadata before they are written: the missing or badly
+ * formatted ones can't be fixed and fail the dump, the too long texts
+ * coming from the wiki are shortened.
+ */
+export function checkZimMetadata(metadata: KVS<string>): KVS<string> {
+  const checked: KVS<string> = {};
+  for (const [name, value] of Object.entries(metadata)) {
+    if (value === undefined || value === '') {
+      continue;
+    }
+    const maxLength = ZIM_METADATA_MAX_LENGTHS[name];
+    if (maxLength && length(value) > maxLength) {
+      logger.warn(`ZIM metadata [${name}] is longer than [${maxLength}] characters, shortening it`);
+      checked[name] = `${Array.from(value).slice(0, maxLength - 1).join('')}…`;
+    } else {
+      checked[name] = value;
+    }
+    if (METADATA_FORMATS[name] && !METADATA_FORMATS[name].test(value)) {
+      throw new Error(`ZIM metadata [${name}] has an invalid value [${value}]`);
+    }
+  }
+
+  const missing = MANDATORY_METADATA.filter((name) => !checked[name]);
+  if (missing.length) {
+    throw new Error(`ZIM metadata [${missing.join(', ')}] missing`);
+  }
+  if (checked.LongDescription && length(checked.LongDescription) <= length(checked.Description)) {
+    logger.warn('ZIM metadata [LongDescription] is not longer than [Description], ignoring it');
+    delete checked.LongDescription;
+  }
+  return checked;
+}
@@ -0,0 +1,176 @@
+import * as domino from 'domino';
+import { ZimReader } from '@openzim/libzim';
+import logger from '../Logger';
+
+export const DEFAULT_BROKEN_LINK_THRESHOLD = 0.01;
+export const DEFAULT_MISSING_MEDIA_THRESHOLD = 0.01;
+export const DEFAULT_DANGLING_REDIRECT_THRESHOLD = 0;
+
+/* Issues kept in the report, by kind */
+const MAX_REPORTED_ISSUES = 1000;
+
+export interface ZimValidationOpts {
+  welcome: string;
+  /* Fractions (between 0 and 1) of the links, media references and redirects which may be broken */
+  brokenLinkThreshold?: number;
+  missingMediaThreshold?: number;
+  danglingRedirectThreshold?: number;
+}
+
+interface ZimValidationIssue {
+  /* First entry referencing the missing one */
+  from: string;
+  to: string;
+  count: number;
+}
+
+interface ZimRef {
+  from: string;
+  count: number;
+}
+
+export interface ZimValidationReport {
+  zimPath: string;
+  entries: number;
+  articles: number;
+  redirects: { total: number, dangling: number };
+  links: { total: number, broken: number };
+  media: { total: number, missing: number };
+  mainPage: boolean;
+  favicon: boolean;
+  issues: { brokenLinks: ZimValidationIssue[], missingMedia: ZimValidationIssue[], danglingRedirects: ZimValidationIssue[] };
+  /* Checks which failed, the ZIM is valid if empty */
+  failures: string[];
+}
+
+/* ZIM url (A/Paris, I/m/Paris.jpg...) of a relative reference of an article, null for external ones */
+function toZimUrl(ref: string, articleUrl: URL) {
+  try {
+    const url = new URL(ref, articleUrl);
+    return url.host === articleUrl.host ? decodeURIComponent(url.pathname.substr(1)) : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+/*
+ * Reads the whole ZIM file once it is written: the internal links of the
+ * articles, their media and the redirects have to point to existing
+ * entries, and the main page and the favicon have to be there.
+ */
+export async function validateZim(zimPath: string, {
+  welcome,
+  brokenLinkThreshold = DEFAULT_BROKEN_LINK_THRESHOLD,
+  missingMediaThreshold = DEFAULT_MISSING_MEDIA_THRESHOLD,
+  danglingRedirectThreshold = DEFAULT_DANGLING_REDIRECT_THRESHOLD,
+}: ZimValidationOpts): Promise<ZimValidationReport> {
+  logger.log(`Validating ZIM [${zimPath}]`);
+  const reader = new ZimReader(zimPath);
+  const report: ZimValidationReport = {
+    zimPath,
+    entries: 0,
+    articles: 0,
+    redirects: { total: 0, dangling: 0 },
+    links: { total: 0, broken: 0 },
+    media: { total: 0, missing: 0 },
+    mainPage: false,
+    favicon: false,
+    issues: { brokenLinks: [], missingMedia: [], danglingRedirects: [] },
+    failures: [],
+  };
+
+  const zimUrls = new Set<string>();
+  /* References to check once all the urls are known, by target */
+  const linkRefs = new Map<string, ZimRef>();
+  const mediaRefs = new Map<string, ZimRef>();
+  const redirectRefs = new Map<string, ZimRef>();
+  const addRef = (refs: Map<string, ZimRef>, to: string, from: string) => {
+    const ref = refs.get(to);
+    if (ref) {
+      ref.count += 1;
+    } else {
+      refs.set(to, { from, count: 1 });
+    }
+  };
+
+  try {
+    report.entries = await reader.getCountArticles();
+    for (let id = 0; id < report.entries; id += 1) {
+      let article;
+      try {
+        article = await reader.getArticleById(id);
+      } catch (err) {
+        // Redirects to a missing entry can't even be read
+        report.redirects.total += 1;
+        report.redirects.dangling += 1;
+        report.issues.danglingRedirects.push({ from: `#${id}`, to: err.message, count: 1 });
+        continue;
+      }
+      const zimUrl = `${article.ns}/${article.url}`;
+      zimUrls.add(zimUrl);
+
+      if (article.redirectUrl) {
+        report.redirects.total += 1;
+        addRef(redirectRefs, article.redirectUrl, zimUrl);
+      } else if (article.ns === 'A' && String(article.mimeType).startsWith('text/html')) {
+        report.articles += 1;
+        const articleUrl = new URL(`A/${String(article.url).split('/').map(encodeURIComponent).join('/')}`, 'http://zim.invalid/');
+        const doc = domino.createDocument(article.data.toString());
+        for (const el of Array.from<DominoElement>(doc.querySelectorAll('a[href]'))) {
+          const target = toZimUrl(el.getAttribute('href'), articleUrl);
+          if (target && target.startsWith('A/')) {
+            report.links.total += 1;
+            addRef(linkRefs, target, zimUrl);
+          }
+        }
+        for (const el of Array.from<DominoElement>(doc.querySelectorAll('[src], [poster], link[href]'))) {
+          const target = toZimUrl(el.getAttribute('src') || el.getAttribute('poster') || el.getAttribute('href'), articleUrl);
+          if (target && (target.startsWith('I/') || target.startsWith('-/'))) {
+            report.media.total += 1;
+            addRef(mediaRefs, target, zimUrl);
+          }
+        }
+      }
+    }
+  } finally {
+    reader.destroy();
+  }
+
+  const checkRefs = (refs: Map<string, ZimRef>, issues: ZimValidationIssue[]) => {
+    let missing = 0;
+    for (const [to, { from, count }] of refs) {
+      if (!zimUrls.has(to)) {
+        missing += count;
+        if (issues.length < MAX_REPORTED_ISSUES) {
+          issues.push({ from, to, count });
+        }
+      }
+    }
+    return missing;
+  };
+  report.links.broken = checkRefs(linkRefs, report.issues.brokenLinks);
+  report.media.missing = checkRefs(mediaRefs, report.issues.missingMedia);
+  report.redirects.dangling += checkRefs(redirectRefs, report.issues.danglingRedirects);
+  report.mainPage = zimUrls.has(`A/${welcome}`);
+  report.favicon = zimUrls.has('-/favicon');
+
+  const exceeds = (count: number, total: number, threshold: number) => total > 0 && count / total > threshold;
+  if (!report.mainPage) {
+    report.failures.push(`main page [A/${welcome}] is missing`);
+  }
+  if (!report.favicon) {
+    report.failures.push('favicon is missing');
+  }
+  if (exceeds(report.links.broken, report.links.total, brokenLinkThreshold)) {
+    report.failures.push(`[${report.links.broken}/${report.links.total}] internal links are broken`);
+  }
+  if (exceeds(report.media.missing, report.media.total, missingMediaThreshold)) {
+    report.failures.push(`[${report.media.missing}/${report.media.total}] media references are missing`);
+  }
+  if (exceeds(report.redirects.dangling, report.redirects.total, danglingRedirectThreshold)) {
+    report.failures.push(`[${report.redirects.dangling}/${report.redirects.total}] redirects are dangling`);
+  }
+
+  logger.log(`Validated [${report.articles}] articles of ZIM [${zimPath}]: [${report.links.broken}] broken links, [${report.media.missing}] missing media, [${report.redirects.dangling}] dangling redirects`);
+  return report;
+}
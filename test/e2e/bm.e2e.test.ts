@@ -1,53 +1,61 @@
 import test from 'blue-tape';
-import { execute } from '../../src/mwoffliner.lib';
-import execa from 'execa';
+import fs from 'fs';
 import rimraf from 'rimraf';
+import pathParser from 'path';
+import { execute } from '../../src/mwoffliner.lib';
+import { MockWiki } from '../mockwiki/MockWiki';
 import { zimcheckAvailable, zimcheck } from 'test/util';
 import 'dotenv/config';
-// import { ZimReader } from '@openzim/libzim';
+
+// Scrape of the whole Bambara wiki of the mock wiki fixtures, see mockWiki.e2e.test.ts
+const fixturesDir = pathParser.resolve(__dirname, '../mockwiki/fixtures/bm');
 
 const now = new Date();
 const testId = `mwo-test-${+now}`;
 
-const parameters = {
-    mwUrl: `https://bm.wikipedia.org`,
-    adminEmail: `test@kiwix.org`,
-    outputDirectory: testId,
-    redis: process.env.REDIS,
-    format: ['nopic'],
-};
-
-test('Simple articleList', async (t) => {
-    await execa.command(`redis-cli flushall`);
-
-    const outFiles = await execute(parameters);
-
-    t.equal(outFiles.length, 1, `Created 1 output`);
-
-    for (const dump of outFiles) {
-        if (dump.nopic) {
-            t.ok(dump.status.files.success > 25, 'nopic has enough files');
-            t.ok(dump.status.redirects.written > 170, 'nopic has enough redirects');
-            t.ok(dump.status.articles.success > 700, 'nopic has enough articles');
-        }
+test('Full scrape of the mock Bambara wiki', async (t) => {
+    if (!fs.existsSync(fixturesDir)) {
+        t.fail(`No mock wiki fixtures in [${fixturesDir}]`);
+        return;
     }
 
-    t.ok(true, 'Scraped BM Full');
+    const mockWiki = new MockWiki({ fixturesDir });
+    const mwUrl = await mockWiki.start();
+
+    try {
+        const outFiles = await execute({
+            mwUrl,
+            adminEmail: `test@kiwix.org`,
+            outputDirectory: testId,
+            kvs: 'memory',
+            format: ['nopic'],
+        });
+
+        t.equal(outFiles.length, 1, `Created 1 output`);
+
+        for (const dump of outFiles) {
+            if (dump.nopic) {
+                t.equal(dump.status.files.success, 0, 'nopic has no media');
+                t.equal(dump.status.redirects.written, 2, 'nopic has all redirects');
+                t.equal(dump.status.articles.success, 4, 'nopic has all articles');
+                t.equal(dump.status.articles.fail, 0, 'nopic has no failed article');
+            }
+        }
 
-    if (await zimcheckAvailable()) {
-        try {
-            await zimcheck(outFiles[0].outFile);
-            t.ok(true, `Zimcheck passes`);
-        } catch (err) {
-            t.ok(false, `Zimcheck passes`);
+        t.ok(true, 'Scraped BM Full');
+
+        if (await zimcheckAvailable()) {
+            try {
+                await zimcheck(outFiles[0].outFile);
+                t.ok(true, `Zimcheck passes`);
+            } catch (err) {
+                t.ok(false, `Zimcheck passes`);
+            }
+        } else {
+            console.log(`Zimcheck not installed, skipping test`);
         }
-    } else {
-        console.log(`Zimcheck not installed, skipping test`);
+    } finally {
+        await mockWiki.stop();
+        rimraf.sync(`./${testId}`);
     }
-
-    // TODO: clear test dir
-    rimraf.sync(`./${testId}`);
-
-    const redisScan = await execa.command(`redis-cli --scan`);
-    t.equal(redisScan.stdout, '', 'Redis has been cleared');
 });
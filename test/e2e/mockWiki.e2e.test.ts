@@ -0,0 +1,90 @@
+import test from 'blue-tape';
+import fs from 'fs';
+import tmp from 'tmp';
+import rimraf from 'rimraf';
+import pathParser from 'path';
+import { execute } from '../../src/mwoffliner.lib';
+import MediaWiki from '../../src/MediaWiki';
+import Downloader from '../../src/Downloader';
+import { MockWiki } from '../mockwiki/MockWiki';
+import { zimcheckAvailable, zimcheck } from 'test/util';
+import 'dotenv/config';
+
+// The committed fixtures are synthetic, see ../mockwiki/fixtures/bm/README.md. Real ones can be
+// recorded from bm.wikipedia.org by running this test with MOCKWIKI_RECORD=1 on an empty fixtures
+// directory, and the bot password of MOCKWIKI_USERNAME and MOCKWIKI_PASSWORD for the login
+const fixturesDir = pathParser.resolve(__dirname, '../mockwiki/fixtures/bm');
+const recordFrom = process.env.MOCKWIKI_RECORD ? 'https://bm.wikipedia.org' : undefined;
+const username = process.env.MOCKWIKI_USERNAME || 'Kiwix@mwoffliner';
+const password = process.env.MOCKWIKI_PASSWORD || 'secret';
+
+const now = new Date();
+const testId = `mwo-test-${+now}`;
+
+test('Scrape of the mock wiki', async (t) => {
+    if (!recordFrom && !fs.existsSync(fixturesDir)) {
+        t.fail(`No mock wiki fixtures in [${fixturesDir}], record them with MOCKWIKI_RECORD=1`);
+        return;
+    }
+
+    const mockWiki = new MockWiki({ fixturesDir, recordFrom });
+    const mwUrl = await mockWiki.start();
+
+    const articleList = tmp.fileSync().name;
+    fs.writeFileSync(articleList, ['Mali', 'Bamakɔ', 'Farafinna'].join('\n'));
+
+    try {
+        const outFiles = await execute({
+            mwUrl,
+            adminEmail: `test@kiwix.org`,
+            articleList,
+            outputDirectory: testId,
+            kvs: 'memory',
+            format: ['nopic', ''],
+        });
+
+        t.equal(outFiles.length, 2, `Created 2 outputs`);
+        for (const dump of outFiles) {
+            const flavour = dump.nopic ? 'nopic' : 'with pictures';
+            t.equal(dump.status.articles.success, 3, `All articles are scraped (${flavour})`);
+            t.equal(dump.status.articles.fail, 0, `No article failed (${flavour})`);
+            t.equal(dump.status.files.fail, 0, `No media failed (${flavour})`);
+            if (!dump.nopic) {
+                t.equal(dump.status.files.success, 1, 'Image of the article is downloaded');
+            }
+
+            if (await zimcheckAvailable()) {
+                try {
+                    await zimcheck(dump.outFile);
+                    t.ok(true, `Zimcheck passes (${flavour})`);
+                } catch (err) {
+                    t.ok(false, `Zimcheck passes (${flavour})`);
+                }
+            } else {
+                console.log(`Zimcheck not installed, skipping test`);
+            }
+        }
+    } finally {
+        await mockWiki.stop();
+        rimraf.sync(`./${testId}`);
+    }
+});
+
+test('Login to the mock wiki', async (t) => {
+    if (!recordFrom && !fs.existsSync(fixturesDir)) {
+        t.fail(`No mock wiki fixtures in [${fixturesDir}], record them with MOCKWIKI_RECORD=1`);
+        return;
+    }
+
+    const mockWiki = new MockWiki({ fixturesDir, recordFrom });
+    const mwUrl = await mockWiki.start();
+
+    try {
+        const mw = new MediaWiki({ base: mwUrl, username, password } as MWConfig);
+        const downloader = new Downloader({ mw, uaString: '', speed: 1, reqTimeout: 1000 * 60, noLocalParserFallback: false, forceLocalParser: false, webp: false, optimisationCacheUrl: '' });
+        await mw.login(downloader);
+        t.ok(mw.hasSession, 'Logged in with the replayed POST requests');
+    } finally {
+        await mockWiki.stop();
+    }
+});
@@ -1,7 +1,7 @@
 import data from './sg.json';
-import type {RedisKvs} from '../../../src/util/RedisKvs';
+import type {Kvs} from '../../../src/util/Kvs';
 
-export const initMockData = async (kvs: RedisKvs<any>, size?: number): Promise<void> => {
+export const initMockData = async (kvs: Kvs<any>, size?: number): Promise<void> => {
   const len = Object.keys(data).length;
   const multiplier = (size ?? len) / len;
 
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import md5 from 'md5';
+import http from 'http';
+import axios from 'axios';
+import * as pathParser from 'path';
+import type { AddressInfo } from 'net';
+
+/* Placeholder of the mock server url in the recorded bodies, the port changes at every run */
+const MOCK_URL_PLACEHOLDER = '{{MOCK_WIKI_URL}}';
+
+/* Response headers worth recording, the other ones depend on the capture */
+const RECORDED_HEADERS = ['content-type', 'etag', 'last-modified', 'mediawiki-api-error'];
+
+const TEXT_CONTENT_TYPE_REGEX = /json|html|css|javascript|text|xml/;
+
+/* Form fields of the logins which are neither recorded nor part of the fixture keys */
+const SECRET_FORM_FIELDS = ['lgpassword', 'password'];
+
+interface Fixture {
+    url: string;
+    /* Form of the POST requests, e.g. of the login, without its secrets */
+    requestBody?: string;
+    status: number;
+    headers: KVS<string>;
+}
+
+interface MockWikiOpts {
+    /* Directory of the recorded fixtures */
+    fixturesDir: string;
+    /* Wiki to record the fixtures from, replay only if not set */
+    recordFrom?: string;
+    /* Other hosts the wiki content refers to (media...), served under /_/<host>/ */
+    hosts?: string[];
+}
+
+
+/*
+ * Local stand-in for a MediaWiki (api.php, load.php, REST API, media...)
+ * serving recorded responses, so the scraper can be tested without network.
+ * In record mode, requests missing from the fixtures are forwarded to the
+ * real wiki and recorded. POST requests are recorded by url and form, the
+ * passwords of the logins being masked. Absolute urls of the wiki and of the
+ * other hosts are rewritten in the responses to point to the mock server.
+ */
+export class MockWiki {
+    public url: string;
+
+    private readonly fixturesDir: string;
+    private readonly recordFrom?: URL;
+    private readonly hosts: string[];
+    private server: http.Server;
+
+    constructor({ fixturesDir, recordFrom, hosts = ['upload.wikimedia.org'] }: MockWikiOpts) {
+        this.fixturesDir = fixturesDir;
+        this.recordFrom = recordFrom ? new URL(recordFrom) : undefined;
+        this.hosts = hosts;
+    }
+
+    public async start(port = 0) {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((err) => {
+                res.writeHead(500, { 'content-type': 'text/plain' });
+                res.end(`Mock wiki failed to serve [${req.url}]: ${err}`);
+            });
+        });
+        await new Promise((resolve) => this.server.listen(port, '127.0.0.1', resolve));
+        // Not "localhost", which makes mwoffliner look for a local Parsoid
+        this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+        return this.url;
+    }
+
+    public stop() {
+        return new Promise((resolve) => this.server.close(resolve));
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        if (!['GET', 'HEAD', 'POST'].includes(req.method)) {
+            res.writeHead(405, { 'content-type': 'text/plain' });
+            res.end(`Mock wiki only serves GET and POST requests`);
+            return;
+        }
+
+        const form = req.method === 'POST' ? await readBody(req) : undefined;
+        const requestBody = form === undefined ? undefined : maskSecrets(form);
+        let fixture = await this.readFixture(req.url, requestBody);
+        if (!fixture && this.recordFrom) {
+            fixture = await this.record(req, res, form);
+        }
+        if (!fixture) {
+            res.writeHead(404, { 'content-type': 'text/plain' });
+            res.end(`No fixture recorded for [${req.method} ${req.url}${requestBody ? ` ${requestBody}` : ''}]`);
+            return;
+        }
+
+        const { status, headers, body } = fixture;
+        const content = TEXT_CONTENT_TYPE_REGEX.test(headers['content-type'] || '')
+            ? Buffer.from(body.toString().split(MOCK_URL_PLACEHOLDER).join(this.url))
+            : body;
+        res.writeHead(status, { ...headers, 'content-length': content.length });
+        res.end(req.method === 'HEAD' ? undefined : content);
+    }
+
+    private async record(req: http.IncomingMessage, res: http.ServerResponse, form?: string) {
+        const realUrl = this.toRealUrl(req.url);
+        const resp = await axios.request({
+            url: realUrl,
+            method: form === undefined ? 'GET' : 'POST',
+            data: form,
+            headers: {
+                'accept': req.headers.accept || '*/*',
+                'user-agent': req.headers['user-agent'] || 'mwoffliner-mockwiki-recorder',
+                ...(req.headers['content-type'] ? { 'content-type': req.headers['content-type'] } : {}),
+                // The session of the login, which is not recorded
+                ...(req.headers.cookie ? { cookie: req.headers.cookie } : {}),
+            },
+            responseType: 'arraybuffer',
+            validateStatus: () => true,
+        });
+
+        const headers = RECORDED_HEADERS
+            .filter((header) => resp.headers[header])
+            .reduce((acc, header) => ({ ...acc, [header]: resp.headers[header] }), {} as KVS<string>);
+        let body: Buffer = resp.data;
+        if (TEXT_CONTENT_TYPE_REGEX.test(headers['content-type'] || '')) {
+            body = Buffer.from(this.toMockUrls(body.toString()));
+        }
+
+        if (resp.headers['set-cookie']) {
+            // Cookies of the real wiki domain, which the scraper would not send to the mock server
+            res.setHeader('set-cookie', resp.headers['set-cookie'].map((cookie: string) => cookie.replace(/;\s*(domain|secure)(=[^;]*)?/gi, '')));
+        }
+
+        const requestBody = form === undefined ? undefined : maskSecrets(form);
+        const fixture: Fixture = { url: req.url, requestBody, status: resp.status, headers };
+        const fixturePath = this.fixturePath(req.url, requestBody);
+        await fs.promises.mkdir(pathParser.dirname(fixturePath), { recursive: true });
+        await fs.promises.writeFile(`${fixturePath}.json`, JSON.stringify(fixture, null, '\t'));
+        await fs.promises.writeFile(`${fixturePath}.body`, body);
+        return { ...fixture, body };
+    }
+
+    private async readFixture(url: string, requestBody?: string): Promise<Fixture & { body: Buffer }> {
+        const fixturePath = this.fixturePath(url, requestBody);
+        if (!fs.existsSync(`${fixturePath}.json`)) {
+            return null;
+        }
+        const fixture: Fixture = JSON.parse(await fs.promises.readFile(`${fixturePath}.json`, 'utf8'));
+        const body = await fs.promises.readFile(`${fixturePath}.body`);
+        return { ...fixture, body };
+    }
+
+    /* Mock server path -> url on the real wiki or on one of the other hosts */
+    private toRealUrl(path: string) {
+        const [, host, hostPath] = /^\/_\/([^/]+)(\/.*)?$/.exec(path) || [];
+        if (host && this.hosts.includes(host)) {
+            return `https://${host}${hostPath || '/'}`;
+        }
+        return `${this.recordFrom.origin}${path}`;
+    }
+
+    private toMockUrls(text: string) {
+        const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const rewrites: Array<[string, string]> = [
+            [this.recordFrom.host, MOCK_URL_PLACEHOLDER],
+            ...this.hosts.map((host): [string, string] => [host, `${MOCK_URL_PLACEHOLDER}/_/${host}`]),
+        ];
+        for (const [host, replacement] of rewrites) {
+            // Absolute and protocol relative urls, also with JSON escaped slashes
+            text = text
+                .replace(new RegExp(`(https?:)?//${escapeRegExp(host)}(?![\\w.-])`, 'g'), replacement)
+                .replace(new RegExp(`(https?:)?\\\\/\\\\/${escapeRegExp(host)}(?![\\w.-])`, 'g'), replacement.replace(/\//g, '\\/'));
+        }
+        return text;
+    }
+
+    private fixturePath(url: string, requestBody?: string) {
+        const hash = md5(requestBody === undefined ? url : `POST ${url}\n${requestBody}`);
+        return pathParser.join(this.fixturesDir, hash.substr(0, 2), hash);
+    }
+}
+
+function maskSecrets(form: string) {
+    const params = new URLSearchParams(form);
+    for (const field of SECRET_FORM_FIELDS) {
+        if (params.has(field)) {
+            params.set(field, '***');
+        }
+    }
+    return params.toString();
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+        req.on('error', reject);
+    });
+}
@@ -0,0 +1,18 @@
+/*
+ * Record fixtures for the mock wiki: starts it in record mode in front of a
+ * real wiki, then scrape its url with mwoffliner to capture every response.
+ *
+ *   npm run mockwiki:record -- https://bm.wikipedia.org test/mockwiki/fixtures/bm 8089
+ */
+import { MockWiki } from './MockWiki';
+
+const [recordFrom, fixturesDir, port] = process.argv.slice(2);
+if (!recordFrom || !fixturesDir) {
+    console.error('Usage: record.ts <wiki url> <fixtures directory> [port]');
+    process.exit(1);
+}
+
+const mockWiki = new MockWiki({ fixturesDir, recordFrom });
+mockWiki.start(Number(port) || 0).then((url) => {
+    console.info(`Recording [${recordFrom}] into [${fixturesDir}], scrape [${url}] to capture its responses`);
+});
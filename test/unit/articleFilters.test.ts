@@ -0,0 +1,86 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import { memoryKvsFactory } from '../../src/util/MemoryKvs';
+import { articleDetailXId, populateArticleDetail, populateRedirects, redirectsXId } from '../../src/stores';
+import { filterArticles, hasArticleFilters } from '../../src/util/articleFilters';
+import { sanitize_articleFilters } from '../../src/sanitize-argument';
+
+/* Page properties of the wiki */
+const pages: KVS<any> = {
+    'Main Page': { length: 100, protection: [{ type: 'edit', level: 'sysop' }] },
+    'London': { length: 50000, protection: [] },
+    'London (disambiguation)': { length: 2000, protection: [], pageprops: { disambiguation: '' } },
+    'List of rivers': { length: 30000, protection: [] },
+    'Stub': { length: 300, protection: [] },
+    'Donald Trump': { length: 200000, protection: [{ type: 'edit', level: 'autoconfirmed' }] },
+    'Lawsuit': { length: 9000, protection: [{ type: 'move', level: 'sysop' }] },
+};
+
+async function populateStores() {
+    populateArticleDetail(memoryKvsFactory, 'articleFilters');
+    populateRedirects(memoryKvsFactory, 'articleFilters');
+    for (const title of Object.keys(pages)) {
+        await articleDetailXId.set(title.replace(/ /g, '_'), { title });
+    }
+    await redirectsXId.set('Trump', { targetId: 'Donald_Trump', title: 'Trump' });
+    await redirectsXId.set('Court_case', { targetId: 'Lawsuit', title: 'Court case' });
+}
+
+function getStubs() {
+    let requests = 0;
+    const mw = {
+        pagePropsApiUrl: (titles: string[]) => JSON.stringify(titles),
+    } as any;
+    const downloader = {
+        speed: 2,
+        async getJSON(url: string) {
+            requests += 1;
+            const titles: string[] = JSON.parse(url);
+            return {
+                query: {
+                    pages: titles.reduce((acc: KVS<any>, id, i) => {
+                        const title = id.replace(/_/g, ' ');
+                        return { ...acc, [i]: { pageid: i, title, ...pages[title] } };
+                    }, {}),
+                },
+            };
+        },
+    } as any;
+    return { mw, downloader, getRequests: () => requests };
+}
+
+test('Article filters', async (t) => {
+    t.notOk(hasArticleFilters({ keptIds: ['Main_Page'] }), 'No filter without options');
+    t.ok(hasArticleFilters({ minArticleBytes: 1000 }), 'Filters with options');
+
+    await populateStores();
+    const { mw, downloader, getRequests } = getStubs();
+    const titleRemoved = await filterArticles(downloader, mw, {
+        ignoredIds: ['Lawsuit'],
+        titleExclude: [/^List of/],
+    });
+    t.deepEqual(Array.from(titleRemoved).sort(), ['Lawsuit', 'List_of_rivers'], 'Ignored and excluded titles are removed');
+    t.equal(getRequests(), 0, 'Page properties are only requested for property filters');
+    t.notOk(await articleDetailXId.get('List_of_rivers'), 'Removed articles are not mirrored anymore');
+    t.notOk(await redirectsXId.get('Court_case'), 'Redirects to removed articles are removed');
+
+    const propertyRemoved = await filterArticles(downloader, mw, {
+        excludeDisambiguations: true,
+        minArticleBytes: 1000,
+        excludeProtected: true,
+        keptIds: ['Main Page'],
+    });
+    t.deepEqual(Array.from(propertyRemoved).sort(), ['Donald_Trump', 'London_(disambiguation)', 'Stub'], 'Articles are filtered on their properties');
+    t.ok(await articleDetailXId.get('Main_Page'), 'Kept articles are never removed');
+    t.ok(await articleDetailXId.get('London'), 'Other articles are kept');
+    t.notOk(await redirectsXId.get('Trump'), 'Redirects to filtered articles are removed');
+
+    await articleDetailXId.flush();
+    await redirectsXId.flush();
+});
+
+test('Article filter arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_articleFilters(['^List of', 'stub$'], 500), 'Valid arguments');
+    t.throws(() => sanitize_articleFilters('[', undefined), /not a valid regular expression/, 'Patterns are checked');
+    t.throws(() => sanitize_articleFilters(undefined, 'big'), /not valid/, 'Minimum bytes is a number');
+});
@@ -0,0 +1,97 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import { Dump } from '../../src/Dump';
+import MediaWiki from '../../src/MediaWiki';
+import { memoryKvsFactory } from '../../src/util/MemoryKvs';
+import { articleDetailXId, articlesToRetryXId, populateArticleDetail, populateArticlesToRetry, populateFilesToDownload } from '../../src/stores';
+import { queueArticleRetry, retryArticles } from '../../src/util/articleRetry';
+import { saveArticles } from '../../src/util/saveArticles';
+import { sanitize_articleFailureThreshold } from '../../src/sanitize-argument';
+
+test('Article retry queue', async (t) => {
+    populateArticleDetail(memoryKvsFactory, 'articleRetry');
+    populateArticlesToRetry(memoryKvsFactory, 'articleRetry');
+    for (const articleId of ['Flaky', 'Broken', 'Deleted', 'Fine']) {
+        await articleDetailXId.set(articleId, { title: articleId });
+    }
+
+    const timeoutError = Object.assign(new Error('timeout of 60000ms exceeded'), { response: { status: 504 } });
+    await queueArticleRetry('Flaky', timeoutError);
+    await queueArticleRetry('Broken', new Error('Parsoid failed'));
+    await queueArticleRetry('Deleted', Object.assign(new Error('Not found'), { response: { status: 404 } }));
+    t.deepEqual(await articlesToRetryXId.get('Flaky'), { attempts: 1, reason: '[status=504] timeout of 60000ms exceeded', permanent: false }, 'Failures are queued with their reason');
+
+    const saved: string[] = [];
+    const calls: KVS<number> = {};
+    const saveArticle = async (articleId: string, articleDetail: ArticleDetail) => {
+        calls[articleId] = (calls[articleId] || 0) + 1;
+        if (articleId === 'Broken' || (articleId === 'Flaky' && calls[articleId] < 2)) {
+            throw new Error(`${articleDetail.title} failed again`);
+        }
+        saved.push(articleId);
+    };
+
+    const failed = await retryArticles(2, saveArticle, { attempts: 3, backoff: 0 });
+    t.deepEqual(saved, ['Flaky'], 'Articles succeeding on a later round are saved');
+    t.equal(calls.Flaky, 2, 'Saved articles are not retried anymore');
+    t.notOk(calls.Fine, 'Only failed articles are retried');
+    t.notOk(calls.Deleted, 'Missing articles are not retried');
+    t.deepEqual(failed, [
+        { articleId: 'Broken', attempts: 4, reason: 'Broken failed again' },
+        { articleId: 'Deleted', attempts: 1, reason: '[status=404] Not found' },
+    ], 'Articles still failing are returned with their last reason');
+
+    await articlesToRetryXId.flush();
+    t.deepEqual(await retryArticles(2, saveArticle, { backoff: 0 }), [], 'Nothing to retry');
+
+    await articleDetailXId.flush();
+});
+
+test('Retry of an article failing on its second page', async (t) => {
+    populateArticleDetail(memoryKvsFactory, 'articleRetryPages');
+    populateArticlesToRetry(memoryKvsFactory, 'articleRetryPages');
+    populateFilesToDownload(memoryKvsFactory, 'articleRetryPages');
+    await articleDetailXId.set('Category:Cities', { title: 'Category:Cities', ns: 14 });
+
+    const mwMetaData = { langIso2: 'en', langIso3: 'eng', title: 'Wikipedia', textDir: 'ltr', webUrl: 'https://en.wikipedia.org/wiki/', baseUrl: 'https://en.wikipedia.org' } as MWMetaData;
+    const mw = new MediaWiki({ base: 'https://en.wikipedia.org' } as MWConfig);
+    const dump = new Dump('', {} as any, mwMetaData);
+    let renders = 0;
+    dump.customProcessor = {
+        async preProcessArticle(articleId: string, doc: DominoElement) {
+            if (articleId === 'Category:Cities__1' && (renders += 1) === 1) {
+                throw new Error('Second page failed');
+            }
+            return doc;
+        },
+    } as any;
+    const downloader = {
+        speed: 1,
+        webp: false,
+        getArticle: async () => [0, 1, 2].map((i) => ({
+            articleId: i ? `Category:Cities__${i}` : 'Category:Cities',
+            displayTitle: `Cities${i ? `/${i}` : ''}`,
+            html: `<body><p>Page ${i}</p></body>`,
+        })),
+        getJSON: async () => ({ parse: { modules: [] as string[], modulescripts: [] as string[], modulestyles: [] as string[], headhtml: { '*': '' } } }),
+    } as any;
+
+    const written: string[] = [];
+    const done: string[] = [];
+    dump.events.on('articleDone', ({ articleId }) => done.push(articleId));
+    await saveArticles({ addArticle: async (article: any) => { written.push(article.aid || `${article.ns}/${article.url}`); } } as any, downloader, mw, dump);
+
+    const pages = ['U/Category:Cities', 'U/Category:Cities__1', 'U/Category:Cities__2'];
+    t.deepEqual(written.filter((aid) => aid.startsWith('U/')), pages, 'Each page written once');
+    t.equal(dump.status.articles.success, 3, 'Each page counted once');
+    t.equal(dump.status.articles.fail, 0, 'Article succeeded when retried');
+    t.deepEqual(done, ['Category:Cities', 'Category:Cities__1', 'Category:Cities__2'], 'One articleDone event per page');
+
+    await articleDetailXId.flush();
+});
+
+test('Article failure threshold argument', async (t) => {
+    t.doesNotThrow(() => sanitize_articleFailureThreshold(0.05), 'Valid threshold');
+    t.doesNotThrow(() => sanitize_articleFailureThreshold(undefined), 'No threshold');
+    t.throws(() => sanitize_articleFailureThreshold(5), /not valid/, 'Threshold is a fraction');
+});
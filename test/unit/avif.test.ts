@@ -0,0 +1,60 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import domino from 'domino';
+import { Dump } from '../../src/Dump';
+import MediaWiki from '../../src/MediaWiki';
+import Downloader from '../../src/Downloader';
+import { treatMedias } from '../../src/util/saveArticles';
+import { makeArticleImageTile } from '../../src/util/articleListMainPage';
+import { memoryKvsFactory } from '../../src/util/MemoryKvs';
+import { articleDetailXId, populateArticleDetail } from '../../src/stores';
+import { sanitize_avif } from '../../src/sanitize-argument';
+
+const mwMetaData = { langIso2: 'en', langIso3: 'eng', title: 'Wikipedia', textDir: 'ltr', webUrl: 'https://en.wikipedia.org/wiki/', baseUrl: 'https://en.wikipedia.org' } as MWMetaData;
+
+function setup(avif: boolean) {
+    const mw = new MediaWiki({ base: 'https://en.wikipedia.org' } as MWConfig);
+    const downloader = new Downloader({ mw, uaString: '', speed: 1, reqTimeout: 1000 * 60, noLocalParserFallback: false, forceLocalParser: false, webp: false, avif, optimisationCacheUrl: '' });
+    const dump = new Dump('', {} as any, mwMetaData);
+    return { mw, downloader, dump };
+}
+
+test('AVIF sources of the article images', async (t) => {
+    populateArticleDetail(memoryKvsFactory, 'avif');
+    await articleDetailXId.set('Paris', { title: 'Paris' } as ArticleDetail);
+    const html = `<body>
+        <figure typeof="mw:Image/Thumb"><a href="./Paris"><img src="//upload.wikimedia.org/wikipedia/commons/thumb/a/ab/Paris.jpg/220px-Paris.jpg" width="220" /></a><figcaption>Paris</figcaption></figure>
+        <p><img src="//upload.wikimedia.org/wikipedia/commons/b/bc/Logo.gif" /></p>
+    </body>`;
+
+    const { mw, downloader, dump } = setup(true);
+    const { doc, mediaDependencies } = await treatMedias(domino.createDocument(html), mw, dump, 'London', downloader);
+    const [jpg, gif] = Array.from<DominoElement>(doc.querySelectorAll('img'));
+    const picture = jpg.parentNode;
+    t.equal(picture.tagName, 'PICTURE', 'Image wrapped in a <picture>');
+    t.equal(picture.querySelector('source').getAttribute('srcset'), `${jpg.getAttribute('src')}.avif`, 'AVIF source next to the image');
+    t.equal(picture.querySelector('source').getAttribute('type'), 'image/avif', 'Type of the source');
+    t.equal(picture.parentNode.tagName, 'A', 'Link kept around the <picture>');
+    t.ok(picture.parentNode.parentNode.getAttribute('class').includes('thumbinner'), '<picture> moved into the thumb frame');
+    t.equal(gif.parentNode.tagName, 'P', 'No AVIF version of the gif images');
+    t.equal(mediaDependencies.length, 2, 'Each image downloaded once');
+
+    const { mw: mwWithoutAvif, downloader: downloaderWithoutAvif, dump: dumpWithoutAvif } = setup(false);
+    const { doc: docWithoutAvif } = await treatMedias(domino.createDocument(html), mwWithoutAvif, dumpWithoutAvif, 'London', downloaderWithoutAvif);
+    t.equal(docWithoutAvif.querySelectorAll('picture').length, 0, 'No <picture> without --avif');
+});
+
+test('AVIF sources of the article list tiles', async (t) => {
+    const { dump } = setup(true);
+    const articleDetail = { title: 'Paris', internalThumbnailUrl: 'I/m/Paris.jpg' } as ArticleDetail;
+    const tile = makeArticleImageTile(dump, articleDetail, false, true);
+    t.ok(tile.includes('<picture><source srcset="I/m/Paris.jpg.avif" type="image/avif" /><img loading="lazy" src="I/m/Paris.jpg" /></picture>'), 'Tile with an AVIF source');
+    t.notOk(makeArticleImageTile(dump, articleDetail, false).includes('<picture>'), 'Tile without --avif');
+});
+
+test('AVIF arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_avif(true, '60', undefined), 'AVIF with a quality');
+    t.throws(() => sanitize_avif(true, undefined, true), /together/, 'AVIF and webp');
+    t.throws(() => sanitize_avif(true, '0', undefined), /not valid/, 'Quality out of range');
+    t.throws(() => sanitize_avif(undefined, '60', undefined), /needs --avif/, 'Quality without AVIF');
+});
@@ -5,16 +5,20 @@ import 'dotenv/config';
 import Redis from '../../src/Redis';
 import test from 'blue-tape';
 import { config } from '../../src/config';
-import { articleDetailXId, redirectsXId, filesToDownloadXPath, populateArticleDetail, populateRedirects, populateFilesToDownload } from 'src/stores';
+import { redisKvsFactory } from '../../src/util/RedisKvs';
+import { articleDetailXId, articlesToRetryXId, redirectsXId, filesToDownloadXPath, populateArticleDetail, populateArticlesToRetry, populateRedirects, populateFilesToDownload } from 'src/stores';
 
 export const redis = new Redis({ redis: process.env.REDIS }, config);
-populateArticleDetail(redis.client);
-populateRedirects(redis.client);
-populateFilesToDownload(redis.client);
+const createKvs = redisKvsFactory(redis.client);
+populateArticleDetail(createKvs);
+populateRedirects(createKvs);
+populateFilesToDownload(createKvs);
+populateArticlesToRetry(createKvs);
 
 articleDetailXId.flush();
 redirectsXId.flush();
 filesToDownloadXPath.flush();
+articlesToRetryXId.flush();
 
 test.onFinish(() => {
     console.info('Closing all redis connections');
@@ -0,0 +1,106 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import { getCategoryArticleIds, normaliseCategoryTitle } from '../../src/util/categorySelection';
+import { sanitize_categorySelection } from '../../src/sanitize-argument';
+
+/* Category graph with a cycle between Physics and Mechanics */
+const graph: KVS<Array<{ ns: number, title: string, type: string }>> = {
+    'Category:Science': [
+        { ns: 0, title: 'Science', type: 'page' },
+        { ns: 14, title: 'Category:Physics', type: 'subcat' },
+        { ns: 14, title: 'Category:Science stubs', type: 'subcat' },
+    ],
+    'Category:Physics': [
+        { ns: 0, title: 'Albert Einstein', type: 'page' },
+        { ns: 2, title: 'User:Physicist', type: 'page' },
+        { ns: 14, title: 'Category:Mechanics', type: 'subcat' },
+    ],
+    'Category:Mechanics': [
+        { ns: 0, title: 'Lever', type: 'page' },
+        { ns: 0, title: 'Albert Einstein', type: 'page' },
+        { ns: 14, title: 'Category:Physics', type: 'subcat' },
+    ],
+    'Category:Science stubs': [
+        { ns: 0, title: 'Stub', type: 'page' },
+    ],
+};
+
+function getStubs() {
+    const requestedCategories: string[] = [];
+    const mw = {
+        namespaces: {
+            '': { num: 0 },
+            'user': { num: 2 },
+            'Category': { num: 14 },
+            'Kategorie': { num: 14 },
+        },
+        namespacesToMirror: [''],
+        categoryMembersApiUrl: (categoryTitle: string, continueStr: string) => JSON.stringify({ categoryTitle, continueStr }),
+    } as any;
+    /* Answers in two batches, to go through the continuation */
+    const downloader = {
+        speed: 2,
+        async getJSON(url: string) {
+            const { categoryTitle, continueStr } = JSON.parse(url);
+            const members = graph[categoryTitle] || [];
+            if (!continueStr) {
+                requestedCategories.push(categoryTitle);
+                return { query: { categorymembers: members.slice(0, 1) }, ...(members.length > 1 ? { continue: { cmcontinue: 'next' } } : {}) };
+            }
+            return { query: { categorymembers: members.slice(1) } };
+        },
+    } as any;
+    return { mw, downloader, requestedCategories };
+}
+
+test('Category selection', async (t) => {
+    const { mw, downloader, requestedCategories } = getStubs();
+
+    t.equal(normaliseCategoryTitle('Science_stubs', mw), 'Category:Science stubs', 'Category prefix is added');
+    t.equal(normaliseCategoryTitle('Kategorie:Physik', mw), 'Kategorie:Physik', 'Localised prefix is kept');
+
+    const direct = await getCategoryArticleIds(downloader, mw, { roots: ['Science'], depth: 0 });
+    t.deepEqual(direct, ['Science'], 'Depth 0 only selects the members of the roots');
+
+    const all = await getCategoryArticleIds(downloader, mw, { roots: ['Science'], depth: 5 });
+    t.deepEqual(all.sort(), ['Albert_Einstein', 'Lever', 'Science', 'Stub'], 'Subcategories are walked, without duplicates');
+    t.notOk(all.includes('User:Physicist'), 'Pages of the namespaces not to mirror are left out');
+    t.equal(requestedCategories.filter((title) => title === 'Category:Physics').length, 1, 'Cycles are only walked once');
+
+    const limited = await getCategoryArticleIds(downloader, mw, { roots: ['Science'], depth: 1 });
+    t.deepEqual(limited.sort(), ['Albert_Einstein', 'Science', 'Stub'], 'Depth limits the subcategories');
+
+    const excluded = await getCategoryArticleIds(downloader, mw, { roots: ['Science'], depth: 5, exclude: [/stubs$/] });
+    t.notOk(excluded.includes('Stub'), 'Excluded subcategories are not walked');
+
+    const included = await getCategoryArticleIds(downloader, mw, { roots: ['Science'], depth: 5, include: [/^Phys/] });
+    t.deepEqual(included.sort(), ['Albert_Einstein', 'Science'], 'Only included subcategories are walked');
+});
+
+test('Category selection with localised namespace names', async (t) => {
+    const { mw, downloader, requestedCategories } = getStubs();
+    /* The API answers with the localised prefix, a cycle leads back to the root given in English */
+    graph['Category:Physik'] = [
+        { ns: 0, title: 'Isaac Newton', type: 'page' },
+        { ns: 14, title: 'Kategorie:Mechanik', type: 'subcat' },
+    ];
+    graph['Kategorie:Mechanik'] = [
+        { ns: 0, title: 'Hebel', type: 'page' },
+        { ns: 14, title: 'Kategorie:Physik', type: 'subcat' },
+    ];
+    try {
+        const articleIds = await getCategoryArticleIds(downloader, mw, { roots: ['Category:Physik'], depth: 5 });
+        t.deepEqual(articleIds.sort(), ['Hebel', 'Isaac_Newton'], 'Subcategories are walked');
+        t.deepEqual(requestedCategories, ['Category:Physik', 'Kategorie:Mechanik'], 'Root is not walked again through its localised name');
+    } finally {
+        delete graph['Category:Physik'];
+        delete graph['Kategorie:Mechanik'];
+    }
+});
+
+test('Category selection arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_categorySelection({ categories: 'Science', categoryDepth: 2, categoryExclude: ['stubs$'] }), 'Valid arguments');
+    t.throws(() => sanitize_categorySelection({ categoryDepth: 2 }), /need --categories/, 'Depth needs categories');
+    t.throws(() => sanitize_categorySelection({ categories: 'Science', categoryDepth: -1 }), /not valid/, 'Depth is a positive integer');
+    t.throws(() => sanitize_categorySelection({ categories: 'Science', categoryInclude: '(' }), /not a valid regular expression/, 'Patterns are checked');
+});
@@ -0,0 +1,77 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import fs from 'fs';
+import tmp from 'tmp';
+import pathParser from 'path';
+import { Dump } from '../../src/Dump';
+import { Checkpoint } from '../../src/util/Checkpoint';
+
+test('Checkpoint journal', async (t) => {
+    const dir = pathParser.join(tmp.dirSync().name, 'wikipedia_en_all.resume');
+
+    t.notOk(Checkpoint.exists(dir), 'No checkpoint before the first run');
+
+    const checkpoint = await Checkpoint.open(dir, { filenameDate: '2020-11' });
+    t.notOk(checkpoint.isResumed, 'New checkpoint is not resumed');
+
+    await checkpoint.recordArticle('London', { url: 'London', ns: 'A', data: '<html>London</html>', mimeType: 'text/html', title: 'London', shouldIndex: true });
+    await checkpoint.markArticleDone('London');
+    await checkpoint.markArticleFailed('Non-existent-town');
+    await checkpoint.recordFile('m/London.jpg', { url: 'm/London.jpg.webp', ns: 'I', data: Buffer.from('42') });
+    await checkpoint.markFileFailed('m/Broken.png');
+    await checkpoint.recordModule('js', 'startup');
+    await checkpoint.recordModule('css', 'site.styles');
+    await checkpoint.recordJsConfigVars('(window.RLQ=window.RLQ||[]).push(function() {});');
+
+    const resumed = await Checkpoint.open(dir, { filenameDate: '2020-12' });
+    t.ok(resumed.isResumed, 'Existing checkpoint is resumed');
+    t.equal(resumed.filenameDate, '2020-11', 'Filename date of the interrupted scrape is kept');
+    t.ok(resumed.isArticleDone('London'), 'Saved article is done');
+    t.ok(resumed.isArticleDone('Non-existent-town'), 'Failed article is done');
+    t.notOk(resumed.isArticleDone('Paris'), 'Other articles are not done');
+    t.ok(resumed.isZimArticleWritten('A', 'London'), 'Written ZIM article is known');
+    t.ok(resumed.isFileDone('m/London.jpg'), 'Saved file is done');
+    t.ok(resumed.isFileDone('m/Broken.png'), 'Failed file is done');
+    t.ok(resumed.jsModules.has('startup') && resumed.cssModules.has('site.styles'), 'Module dependencies are restored');
+    t.ok(resumed.jsConfigVars.includes('RLQ'), 'jsConfigVars are restored');
+
+    const added: any[] = [];
+    const status = { articles: { success: 0, fail: 0 }, files: { success: 0, fail: 0 } };
+    await resumed.replay({ addArticle(article: any) { added.push(article); return Promise.resolve(); } } as any, status);
+
+    t.equal(added.length, 2, 'Article and file are replayed');
+    t.equal(added[1].url, 'm/London.jpg.webp', 'File is replayed with its final url');
+    t.deepEqual(status, { articles: { success: 1, fail: 1 }, files: { success: 1, fail: 1 } }, 'Dump status is restored');
+
+    resumed.discard();
+    t.notOk(Checkpoint.exists(dir), 'Checkpoint is deleted');
+    t.notOk(fs.existsSync(pathParser.join(dir, 'blobs')), 'Copies of the articles and files are deleted');
+});
+
+test('Checkpoint of the dumps', async (t) => {
+    const outputDirectory = `${tmp.dirSync().name}/`;
+    const mwMetaData = { langIso2: 'en', langIso3: 'eng', title: 'Wikipedia', webUrl: 'https://en.wikipedia.org/wiki/' } as MWMetaData;
+    const newDump = (opts: { checkpoint?: boolean, resume?: boolean }) => new Dump('', { outputDirectory, filenamePrefix: 'wikipedia_en_all', filenameDate: '2020-12', ...opts } as any, mwMetaData);
+
+    const dump = newDump({});
+    t.notOk(await dump.checkResume(), 'Dump without checkpoint is not skipped');
+    t.notOk(dump.checkpoint, 'No checkpoint without --checkpoint');
+    t.notOk(Checkpoint.exists(dump.computeCheckpointPath()), 'No checkpoint written without --checkpoint');
+
+    const checkpointedDump = newDump({ checkpoint: true });
+    await checkpointedDump.checkResume();
+    t.ok(checkpointedDump.checkpoint && !checkpointedDump.checkpoint.isResumed, 'New checkpoint with --checkpoint');
+    await checkpointedDump.checkpoint.markArticleFailed('London');
+
+    const resumedDump = newDump({ resume: true });
+    t.notOk(await resumedDump.checkResume(), 'Interrupted dump is not skipped');
+    t.ok(resumedDump.checkpoint.isResumed && resumedDump.checkpoint.isArticleDone('London'), 'Checkpoint of the interrupted dump resumed');
+
+    const restartedDump = newDump({ checkpoint: true });
+    await restartedDump.checkResume();
+    t.notOk(restartedDump.checkpoint.isResumed || restartedDump.checkpoint.isArticleDone('London'), 'Checkpoint replaced without --resume');
+    restartedDump.checkpoint.discard();
+
+    fs.writeFileSync(`${outputDirectory}wikipedia_en_all_2020-12.zim`, '');
+    t.ok(await newDump({ resume: true }).checkResume(), 'Finished dump is skipped with --resume');
+});
@@ -0,0 +1,97 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import http from 'http';
+import * as backoff from 'backoff';
+import { AddressInfo } from 'net';
+import Downloader from '../../src/Downloader';
+import MediaWiki from '../../src/MediaWiki';
+import logger from '../../src/Logger';
+import { ConcurrencyController, parseRetryAfter } from '../../src/util/ConcurrencyController';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('Concurrency limit', async (t) => {
+    const pool = new ConcurrencyController({ name: 'test', initial: 2, max: 4 });
+    const started: number[] = [];
+    const requests = [0, 1, 2].map(async (i) => {
+        await pool.acquire();
+        started.push(i);
+    });
+    await tick();
+    t.deepEqual(started, [0, 1], 'Requests above the limit wait');
+    t.equal(pool.waitingRequests, 1, 'Waiting requests are queued');
+
+    pool.release();
+    await Promise.all(requests);
+    t.deepEqual(started, [0, 1, 2], 'Released slots wake up the waiting requests');
+    pool.release();
+    pool.release();
+    t.equal(pool.activeRequests, 0, 'All slots are released');
+});
+
+test('Concurrency adaptation', async (t) => {
+    const pool = new ConcurrencyController({ name: 'test', initial: 2, max: 4 });
+    for (let i = 0; i < 20; i += 1) {
+        await pool.acquire();
+        pool.release();
+    }
+    t.equal(pool.currentLimit, 4, 'Limit grows with successes, up to the max');
+
+    await pool.acquire();
+    await pool.acquire();
+    pool.release(true);
+    t.equal(pool.currentLimit, 2, 'Limit is halved on overload');
+    pool.release(true);
+    t.equal(pool.currentLimit, 2, 'Simultaneous overloads only count once');
+
+    const small = new ConcurrencyController({ name: 'test', max: 4 });
+    await small.acquire();
+    small.release(true);
+    t.equal(small.currentLimit, 1, 'Limit does not go below the min');
+});
+
+test('Concurrency pause', async (t) => {
+    const pool = new ConcurrencyController({ name: 'test', initial: 2, max: 2 });
+    pool.pause(100);
+    const start = Date.now();
+    await pool.acquire();
+    t.ok(Date.now() - start >= 90, 'Requests wait for the end of the pause');
+    pool.release();
+});
+
+test('Retry-After header', async (t) => {
+    const now = Date.parse('Wed, 21 Oct 2020 07:28:00 GMT');
+    t.equal(parseRetryAfter('120'), 120000, 'Delay in seconds');
+    t.equal(parseRetryAfter('Wed, 21 Oct 2020 07:28:30 GMT', now), 30000, 'HTTP date');
+    t.equal(parseRetryAfter('Wed, 21 Oct 2020 07:27:00 GMT', now), 0, 'Past date');
+    t.equal(parseRetryAfter(undefined), 0, 'No header');
+    t.equal(parseRetryAfter('soon'), 0, 'Invalid header');
+});
+
+test('Throttled images of the optimisation cache', async (t) => {
+    const server = http.createServer((req, res) => {
+        res.writeHead(429);
+        res.end();
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const logs: string[] = [];
+    const log = logger.log;
+    logger.log = (...args: any[]) => { logs.push(args.join(' ')); };
+    try {
+        const mw = new MediaWiki({ base: `http://${host}` } as MWConfig);
+        const s3 = { downloadBlob: async (): Promise<any> => undefined, uploadBlob: async (): Promise<void> => undefined } as any;
+        const downloader = new Downloader({
+            mw, uaString: '', speed: 1, reqTimeout: 1000 * 60, noLocalParserFallback: false, forceLocalParser: false, webp: false, optimisationCacheUrl: 'http://s3.invalid', s3,
+            backoffOptions: { strategy: new backoff.ExponentialStrategy(), failAfter: 1, retryIf: () => false, backoffHandler: () => undefined },
+        });
+        const err = await downloader.downloadContent(`http://${host}/Paris.jpg`).catch((e) => e);
+        t.equal(err.response.status, 429, 'Overloaded media host');
+        t.deepEqual(downloader.getPoolStats().map(({ name }) => name), [host], 'Image requested in the pool of its host');
+        t.ok(logs.includes(`Pausing requests to [${host}] for [5s]`), 'Default pause without Retry-After header');
+    } finally {
+        logger.log = log;
+        await new Promise((resolve) => server.close(resolve));
+    }
+});
@@ -0,0 +1,67 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import * as pathParser from 'path';
+import test from 'blue-tape';
+import { loadConfigFile } from '../../src/util/configFile';
+
+const writeConfig = (name: string, content: string) => {
+    const configPath = `${tmp.dirSync().name}/${name}`;
+    fs.writeFileSync(configPath, content);
+    return configPath;
+};
+
+test('Config file', async (t) => {
+    const yamlPath = writeConfig('wikis.yaml', [
+        'adminEmail: foo@bar.net',
+        'format: nopic',
+        'profiles:',
+        '  wikipedia_en:',
+        '    mwUrl: https://en.wikipedia.org',
+        '    customZimTitle: Wikipedia',
+        '  novid:',
+        '    format: [novid, nodet]',
+        '  wiktionary_en:',
+        '    mw-url: https://en.wiktionary.org',
+    ].join('\n'));
+
+    t.deepEqual(loadConfigFile(yamlPath), { adminEmail: 'foo@bar.net', format: 'nopic' }, 'Options without profile');
+    t.deepEqual(loadConfigFile(yamlPath, ['wikipedia_en', 'novid']), {
+        adminEmail: 'foo@bar.net',
+        format: ['novid', 'nodet'],
+        mwUrl: 'https://en.wikipedia.org',
+        customZimTitle: 'Wikipedia',
+    }, 'Profiles are applied in order');
+    t.equal(loadConfigFile(yamlPath, ['wiktionary_en'])['mw-url'], 'https://en.wiktionary.org', 'Kebab case options are accepted, like on the command line');
+    t.throws(() => loadConfigFile(yamlPath, ['wikipedia_fr']), /Profile \[wikipedia_fr\] not found/, 'Unknown profile');
+
+    const jsonPath = writeConfig('wikis.json', JSON.stringify({ mwUrl: 'https://en.wikipedia.org', profiles: { mini: { format: 'nodet' } } }));
+    t.deepEqual(loadConfigFile(jsonPath, ['mini']), { mwUrl: 'https://en.wikipedia.org', format: 'nodet' }, 'JSON config file');
+
+    t.throws(() => loadConfigFile(writeConfig('bad.json', '{ "mwUrl": "https://en.wikipedia.org", "speeed": 2 }')), /Unknown argument \[speeed\]/, 'Unknown option');
+    t.throws(() => loadConfigFile(writeConfig('bad.yaml', 'profiles:\n  mini:\n    config: other.yaml'), ['mini']), /Unknown argument \[config\] in profile \[mini\]/, 'Command line only option');
+    t.throws(() => loadConfigFile(writeConfig('bad.ini', 'mwUrl=https://en.wikipedia.org')), /only \.json, \.yaml and \.yml/, 'Unsupported file type');
+    t.throws(() => loadConfigFile(writeConfig('broken.json', '{ "mwUrl": ')), /Failed to read config file/, 'Invalid file');
+});
+
+test('Relative paths of a config file', async (t) => {
+    const configPath = writeConfig('wikis.yaml', [
+        'articleList: lists/capitals.tsv',
+        'outputDirectory: ../out',
+        'caBundle: /etc/ssl/certs/proxy.pem',
+        'customZimTitle: lists/capitals',
+        'profiles:',
+        '  favicon:',
+        '    custom-zim-favicon: ./favicon.png',
+        '    articleListToIgnore: https://example.org/ignore.tsv',
+    ].join('\n'));
+    const configDir = pathParser.dirname(configPath);
+
+    const options = loadConfigFile(configPath, ['favicon']);
+    t.equal(options.articleList, pathParser.join(configDir, 'lists/capitals.tsv'), 'Relative to the config file');
+    t.equal(options.outputDirectory, pathParser.resolve(configDir, '../out'), 'Parent directories are resolved');
+    t.equal(options.caBundle, '/etc/ssl/certs/proxy.pem', 'Absolute paths are kept');
+    t.equal(options.customZimTitle, 'lists/capitals', 'Other options are kept');
+    t.equal(options['custom-zim-favicon'], pathParser.join(configDir, 'favicon.png'), 'Paths of the profiles');
+    t.equal(options.articleListToIgnore, 'https://example.org/ignore.tsv', 'Urls are kept');
+});
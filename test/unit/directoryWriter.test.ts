@@ -0,0 +1,75 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import test from 'blue-tape';
+import * as pathParser from 'path';
+import { ZimArticle } from '@openzim/libzim';
+import { DirectoryWriter } from '../../src/util/DirectoryWriter';
+
+test('Directory writer', async (t) => {
+    const dir = tmp.dirSync().name;
+    const writer = new DirectoryWriter({ dir, welcome: 'Main_Page' }, { Title: 'Wikipedia', Language: 'eng' });
+    const read = (path: string) => fs.readFileSync(pathParser.join(dir, path), 'utf8');
+
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'London', data: '<html>London</html>', mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'I', url: 'm/London.jpg', data: 'jpg', mimeType: 'image/jpeg' }));
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Londres', redirectUrl: 'London', title: 'Londres', data: '', mimeType: 'text/html' }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'AC/DC', data: '<html>AC/DC</html>', mimeType: 'text/html' }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'AC', data: '<html>AC</html>', mimeType: 'text/html' }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'Paris', data: '<html>Paris</html>', mimeType: 'text/html' }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'Paris/Louvre', data: '<html>Louvre</html>', mimeType: 'text/html' }));
+    await writer.finalise();
+
+    t.equal(read('A/London'), '<html>London</html>', 'Article is written under its namespace');
+    t.equal(read('I/m/London.jpg'), 'jpg', 'Media is written in sub directories');
+    t.ok(read('A/Londres').includes('url=../A/London"'), 'Redirect points to its target');
+    t.equal(read('M/Title'), 'Wikipedia', 'Metadata are written');
+    t.equal(read('M/Counter'), 'text/html=5;image/jpeg=1', 'Entries are counted by mime type');
+    t.ok(read('index.html').includes('url=A/Main_Page"'), 'Root index redirects to the main page');
+    t.equal(read('A/AC/index.html'), '<html>AC</html>', 'Article written after an article under it');
+    t.equal(read('A/AC/DC'), '<html>AC/DC</html>', 'Article under another article');
+    t.equal(read('A/Paris/index.html'), '<html>Paris</html>', 'Article written before an article under it');
+    t.equal(read('A/Paris/Louvre'), '<html>Louvre</html>', 'Article under a previous article');
+
+    const badWriter = new DirectoryWriter({ dir: pathParser.join(dir, 'bad'), welcome: 'Main_Page' });
+    badWriter.addArticle(new ZimArticle({ ns: 'A', url: '../../etc', data: 'nope' }));
+    try {
+        await badWriter.finalise();
+        t.fail('Writing outside of the directory should fail');
+    } catch (err) {
+        t.ok(err.message.includes('outside of the output directory'), 'Writing outside of the directory fails');
+    }
+});
+
+test('Directory writer with articles under other articles', async (t) => {
+    const dir = tmp.dirSync().name;
+    const writer = new DirectoryWriter({ dir, welcome: 'Main_Page' });
+    const read = (path: string) => fs.readFileSync(pathParser.join(dir, path), 'utf8');
+    const html = (title: string) => `<html><head><link href="../-/s/style.css" rel="stylesheet"></head><body><a href="./Bar">Bar</a> <a href="https://en.wikipedia.org/wiki/${title}">${title}</a> <a href="#top">Top</a>`
+        + `<picture><source srcset="../I/m/Foo.jpg.avif 1x, ../I/m/Foo2.jpg.avif 2x" /><img src="../I/m/Foo.jpg" /></picture></body></html>`;
+
+    // Not awaited, like in saveArticles(): the writes of a parent and its children run in parallel
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Foo', data: html('Foo'), mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Foo/Bar', data: html('Foo/Bar'), mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Foo/Baz', redirectUrl: 'Foo/Bar', title: 'Foo/Baz', data: '', mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Foo/Baz/Qux', data: html('Foo/Baz/Qux'), mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Fox/Bar', data: html('Fox/Bar'), mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'A', url: 'Fox', data: html('Fox'), mimeType: 'text/html' }));
+    writer.addArticle(new ZimArticle({ ns: 'I', url: 'm/Foo', data: 'data', mimeType: 'application/octet-stream' }));
+    writer.addArticle(new ZimArticle({ ns: 'I', url: 'm/Foo/Bar.jpg', data: 'jpg', mimeType: 'image/jpeg' }));
+    await writer.finalise();
+
+    for (const url of ['A/Foo/index.html', 'A/Fox/index.html']) {
+        const page = read(url);
+        t.ok(page.includes('href="../../-/s/style.css"'), `Stylesheet link of ${url} one level deeper`);
+        t.ok(page.includes('href="../Bar"'), `Article link of ${url} one level deeper`);
+        t.ok(page.includes('srcset="../../I/m/Foo.jpg.avif 1x, ../../I/m/Foo2.jpg.avif 2x"') && page.includes('src="../../I/m/Foo.jpg"'), `Image links of ${url} one level deeper`);
+        t.ok(page.includes('href="https://en.wikipedia.org/wiki/') && page.includes('href="#top"'), `Absolute links and anchors of ${url} kept`);
+    }
+    t.equal(read('A/Foo/Bar'), html('Foo/Bar'), 'Links of the articles written at their url kept');
+    t.ok(read('A/Foo/Baz/index.html').includes('url=../../../A/Foo/Bar"'), 'Redirect with children points to its target');
+    t.equal(read('A/Foo/Baz/Qux'), html('Foo/Baz/Qux'), 'Article under a redirect');
+    t.equal(read('I/m/Foo/index.html'), 'data', 'Other files with children moved as they are');
+    t.equal(read('I/m/Foo/Bar.jpg'), 'jpg', 'Media under another file');
+    t.deepEqual(fs.readdirSync(pathParser.join(dir, 'A')).sort(), ['Foo', 'Fox'], 'No leftover of the moved files');
+});
@@ -23,3 +23,11 @@ test('Dump formats', async (t) => {
         t.equal(outFormat, '_' + expectedFormatTags, `tag [${expectedFormatTags}] is correct`);
     }
 });
+
+test('Dump filename radical with a language variant', async (t) => {
+    const mwMetaData = { creator: 'Wikipedia', webUrl: 'https://zh.wikipedia.org/wiki/', langIso2: 'zh', langIso3: 'zho' } as any;
+    const dump = new Dump('', { filenameDate: '2020-10' } as any, mwMetaData);
+    t.equal(dump.computeFilenameRadical(), 'wikipedia_zh_all_2020-10', 'Language without variant');
+    const variantDump = new Dump('', { filenameDate: '2020-10', variant: 'zh-Hant' } as any, mwMetaData);
+    t.equal(variantDump.computeFilenameRadical(), 'wikipedia_zh-hant_all_2020-10', 'Variant instead of the language');
+});
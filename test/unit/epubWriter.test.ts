@@ -0,0 +1,65 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import JSZip from 'jszip';
+import test from 'blue-tape';
+import { ZimArticle } from '@openzim/libzim';
+import { EpubWriter } from '../../src/util/EpubWriter';
+import { sanitize_outputFormat } from '../../src/sanitize-argument';
+
+const articleHtml = (body: string) => `<!DOCTYPE html><html><head><link href="../-/s/css_modules/style.css" rel="stylesheet" type="text/css"><script src="../-/j/script.js"></script></head><body>${body}</body></html>`;
+
+test('EPUB writer', async (t) => {
+    const fileName = `${tmp.dirSync().name}/wikipedia_en_list.epub`;
+    const writer = new EpubWriter({ fileName, articleIds: ['Paris', 'London'], language: 'en' }, { Title: 'Capitals', Creator: 'Wikipedia' });
+
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'London', title: 'London', mimeType: 'text/html',
+        data: articleHtml('<p>See <a href="./Paris#History">Paris</a>, <a href="./Berlin">Berlin</a> and <a href="https://example.com">the web</a>.</p><img src="../I/m/London.jpg" srcset="../I/m/London_2x.jpg 2x"><br>') }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'Paris', title: 'Paris & co', mimeType: 'text/html',
+        data: articleHtml('<p>Next to <a href="./Londres">London</a></p><img src="../I/m/Missing.jpg">') }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'Londres', redirectUrl: 'London', title: 'Londres', data: '' }));
+    await writer.addArticle(new ZimArticle({ ns: 'A', url: 'index', title: 'Main Page', mimeType: 'text/html', data: articleHtml('') }));
+    await writer.addArticle(new ZimArticle({ ns: 'I', url: 'm/London.jpg', data: 'jpg' }));
+    await writer.addArticle(new ZimArticle({ ns: 'I', url: 'm/Unused.jpg', data: 'jpg' }));
+    await writer.addArticle(new ZimArticle({ ns: '-', url: 's/css_modules/style.css', data: 'body { background: url(bg.png) }', mimeType: 'text/css' }));
+    await writer.addArticle(new ZimArticle({ ns: '-', url: 's/bg.png', data: 'png' }));
+    await writer.finalise();
+
+    const zip = await JSZip.loadAsync(fs.readFileSync(fileName));
+    const read = (path: string) => zip.file(path).async('string');
+    t.equal(Object.keys(zip.files)[0], 'mimetype', 'mimetype is the first entry');
+    t.equal(await read('mimetype'), 'application/epub+zip', 'mimetype is EPUB');
+    t.ok((await read('META-INF/container.xml')).includes('full-path="OEBPS/content.opf"'), 'Container points to the package document');
+
+    const nav = await read('OEBPS/nav.xhtml');
+    t.ok(nav.indexOf('Paris &amp; co') < nav.indexOf('London') && nav.includes('href="ch0001.xhtml"'), 'Navigation follows the article list');
+    t.notOk(nav.includes('Main Page'), 'Article list main page is not a chapter');
+
+    const opf = await read('OEBPS/content.opf');
+    t.ok(opf.includes('<dc:title>Capitals</dc:title>') && opf.includes('<dc:language>en</dc:language>'), 'Package has the metadata');
+    t.ok(opf.includes('<itemref idref="ch1"/>\n<itemref idref="ch2"/>'), 'Spine has the chapters');
+    t.notOk(/Unused|Missing/.test(Object.keys(zip.files).join()), 'Only the used media are in the book');
+    t.equal(Object.keys(zip.files).filter((path) => path.startsWith('OEBPS/res/') && !zip.files[path].dir).length, 3, 'Used media and stylesheets are in the book');
+
+    const london = await read('OEBPS/ch0002.xhtml');
+    t.ok(london.includes('<a href="ch0001.xhtml#History">Paris</a>'), 'Internal links point to chapters');
+    t.ok(london.includes(', Berlin and'), 'Links to articles which are not in the book are removed');
+    t.ok(london.includes('<a href="https://example.com">'), 'External links are kept');
+    t.ok(/<img src="res\/\w+\.jpg"\/><br\/>/.test(london), 'Media are rewritten and elements are XHTML');
+    t.notOk(/<script|srcset/.test(london), 'Scripts and srcset are removed');
+
+    const paris = await read('OEBPS/ch0001.xhtml');
+    t.ok(paris.includes('<a href="ch0002.xhtml">London</a>'), 'Links to redirects point to their target chapter');
+    t.notOk(paris.includes('<img'), 'Images which were not downloaded are removed');
+
+    const stylesheet = /<link rel="stylesheet" type="text\/css" href="(res\/\w+\.css)"\/>/.exec(paris);
+    t.ok(stylesheet, 'Stylesheet is linked');
+    t.ok(/url\(\w+\.png\)/.test(await read(`OEBPS/${stylesheet[1]}`)), 'Stylesheet media are rewritten');
+});
+
+test('EPUB arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_outputFormat('epub', 'Paris,London'), 'EPUB of an article list');
+    t.throws(() => sanitize_outputFormat('epub', undefined), /only for --articleList/, 'EPUB of a whole wiki');
+    t.throws(() => sanitize_outputFormat('epub', 'Paris,London', true), /--webp/, 'EPUB with webp');
+    t.doesNotThrow(() => sanitize_outputFormat('zim', undefined, true), 'ZIM with webp');
+});
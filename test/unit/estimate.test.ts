@@ -0,0 +1,61 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import test from 'blue-tape';
+import { Dump } from '../../src/Dump';
+import { memoryKvsFactory } from '../../src/util/MemoryKvs';
+import { articleDetailXId, populateArticleDetail, populateRedirects, redirectsXId } from '../../src/stores';
+import { estimateDump, writeEstimate } from '../../src/util/estimate';
+
+test('Scrape estimate', async (t) => {
+    populateArticleDetail(memoryKvsFactory, 'estimate');
+    populateRedirects(memoryKvsFactory, 'estimate');
+    for (let i = 0; i < 100; i += 1) {
+        await articleDetailXId.set(`Article_${i}`, { title: `Article_${i}` } as any);
+    }
+    await redirectsXId.set('Redirect', { targetId: 'Article_0', title: 'Redirect' });
+
+    const html = '<html><body><p>0123456789</p></body></html>';
+    const rendered: string[] = [];
+    const downloader = {
+        speed: 2,
+        async getArticle(articleId: string) {
+            rendered.push(articleId);
+            if (articleId === 'Article_13') {
+                throw new Error('Parsoid failed');
+            }
+            return [{ articleId, displayTitle: articleId, html }];
+        },
+    } as any;
+
+    const outputDirectory = tmp.dirSync().name;
+    const dump = new Dump('nopic', { outputDirectory, filenameDate: '2020-11' } as any, { langIso2: 'en', creator: 'Wikipedia', webUrl: 'https://en.wikipedia.org/wiki/' } as any);
+    const estimate = await estimateDump(dump, downloader, null, 0.2);
+
+    t.equal(estimate.flavour, 'nopic', 'Estimate is per flavour');
+    t.equal(estimate.sampledArticles, 20, 'Sample follows the sample rate');
+    t.equal(new Set(rendered).size, 20, 'Sampled articles are distinct');
+    t.equal(rendered.length, estimate.sampledArticles, 'Sampled articles are rendered');
+    t.equal(estimate.failedArticles, rendered.includes('Article_13') ? 1 : 0, 'Failed articles are counted');
+    t.equal(estimate.articles, 100, 'All articles are counted');
+    t.equal(estimate.redirects, 1, 'Redirects are counted');
+    t.equal(estimate.downloadBytes, 100 * html.length, 'Download size is extrapolated');
+    t.equal(estimate.zimBytes, Math.round(100 * html.length * 0.2), 'ZIM size is extrapolated with the compression');
+
+    const small = await estimateDump(dump, downloader, null, 0.01);
+    t.equal(small.sampledArticles, 10, 'Small sample rates still sample');
+
+    rendered.length = 0;
+    for (let i = 0; i < 50; i += 1) {
+        await estimateDump(dump, downloader, null, 0.1);
+    }
+    const lastHalf = rendered.filter((articleId) => Number(articleId.split('_')[1]) >= 50).length;
+    t.ok(lastHalf > rendered.length * 0.35 && lastHalf < rendered.length * 0.65, 'Articles read last are sampled as often as the other ones');
+
+    await writeEstimate(dump, estimate);
+    const written = fs.readdirSync(outputDirectory).find((file) => file.endsWith('.estimate.json'));
+    t.ok(written && written.includes('nopic'), 'Estimate is written next to the outputs');
+
+    await articleDetailXId.flush();
+    await redirectsXId.flush();
+});
@@ -0,0 +1,55 @@
+import './bootstrap.test';
+import fs from 'fs';
+import test from 'blue-tape';
+import tmp from 'tmp';
+import { HttpCache, HTTP_CACHE_MISS } from '../../src/util/HttpCache';
+
+const url = 'https://en.wikipedia.org/w/api.php?action=query&format=json';
+
+test('HTTP cache', async (t) => {
+    const dir = tmp.dirSync().name;
+    const cache = new HttpCache(dir);
+
+    t.equal(await cache.get(url), null, 'Nothing cached at first');
+
+    await cache.put(url, { data: { query: { pages: [] } }, status: 200, statusText: 'OK', headers: { etag: 'W/"42"', 'content-type': 'application/json' }, config: {} });
+    const cached = await cache.get(url);
+    t.ok(cached, 'Response is cached');
+    t.deepEqual(HttpCache.revalidationHeaders(cached.entry), { 'If-None-Match': 'W/"42"' }, 'Revalidated with the ETag');
+
+    const resp = HttpCache.toResponse(cached, 'json');
+    t.deepEqual(resp.data, { query: { pages: [] } }, 'JSON body is restored');
+    t.equal(resp.headers['content-type'], 'application/json', 'Headers are restored');
+    t.ok(Buffer.isBuffer(HttpCache.toResponse(cached, 'arraybuffer').data), 'Binary body is restored');
+
+    const imageUrl = 'https://upload.wikimedia.org/London.jpg';
+    await cache.put(imageUrl, { data: Buffer.from('jpg'), status: 200, statusText: 'OK', headers: { 'last-modified': 'Wed, 21 Oct 2015 07:28:00 GMT' }, config: {} });
+    const cachedImage = await cache.get(imageUrl);
+    t.equal(cachedImage.body.toString(), 'jpg', 'Binary body is cached');
+    t.deepEqual(HttpCache.revalidationHeaders(cachedImage.entry), { 'If-Modified-Since': 'Wed, 21 Oct 2015 07:28:00 GMT' }, 'Revalidated with Last-Modified');
+
+    await cache.put(`${url}&action=login`, { data: {}, status: 200, statusText: 'OK', headers: { 'set-cookie': ['session=1'] }, config: {} });
+    t.equal(await cache.get(`${url}&action=login`), null, 'Responses opening a session are not cached');
+
+    const listFiles = (path: string): string[] => fs.statSync(path).isDirectory() ? [].concat(...fs.readdirSync(path).map((name) => listFiles(`${path}/${name}`))) : [path];
+    t.equal(listFiles(dir).filter((path) => path.endsWith('.tmp')).length, 0, 'No temporary file is left');
+
+    t.equal(HttpCache.missError(url).code, HTTP_CACHE_MISS, 'Cache misses have their own error code');
+});
+
+test('HTTP cache freshness', async (t) => {
+    const date = 'Wed, 21 Oct 2015 07:28:00 GMT';
+    const cachedAt = Date.parse(date);
+    const entry = (headers: KVS<string>) => ({ url, status: 200, headers, bodyHash: '', cachedAt });
+
+    t.ok(HttpCache.isFresh(entry({ 'cache-control': 'public, max-age=3600' }), cachedAt + 1000), 'Fresh within max-age');
+    t.notOk(HttpCache.isFresh(entry({ 'cache-control': 'public, max-age=3600' }), cachedAt + 3601 * 1000), 'Stale after max-age');
+    t.notOk(HttpCache.isFresh(entry({ 'cache-control': 'max-age=3600', age: '3599' }), cachedAt + 2000), 'Age of the response counts');
+    t.notOk(HttpCache.isFresh(entry({ 'cache-control': 'private, must-revalidate, max-age=0' }), cachedAt), 'Stale with max-age=0');
+    t.notOk(HttpCache.isFresh(entry({ 'cache-control': 'no-cache, max-age=3600' }), cachedAt), 'Stale with no-cache');
+    t.ok(HttpCache.isFresh(entry({ date, expires: 'Wed, 21 Oct 2015 08:28:00 GMT' }), cachedAt + 1000), 'Fresh before Expires');
+    t.notOk(HttpCache.isFresh(entry({ date, expires: 'Wed, 21 Oct 2015 08:28:00 GMT' }), cachedAt + 3601 * 1000), 'Stale after Expires');
+    t.notOk(HttpCache.isFresh(entry({ date, expires: '0' }), cachedAt), 'Stale with an invalid Expires');
+    t.ok(HttpCache.isFresh({ url, status: 200, headers: { date, 'cache-control': 'max-age=60' }, bodyHash: '' }, cachedAt + 1000), 'Date header without the cache time');
+    t.notOk(HttpCache.isFresh(entry({ etag: 'W/"42"' }), cachedAt), 'Stale without freshness headers');
+});
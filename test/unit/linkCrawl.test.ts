@@ -0,0 +1,78 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import test from 'blue-tape';
+import { crawlArticleIds, writeArticleList } from '../../src/util/linkCrawl';
+import { sanitize_crawl } from '../../src/sanitize-argument';
+
+/* Links between the pages of the wiki, Old_main is a redirect to Main */
+const wikiLinks: KVS<string[]> = {
+    'Main': ['Physics', 'Chemistry', 'Missing'],
+    'Physics': ['Chemistry', 'Energy', 'Atom', 'User:Foo'],
+    'Chemistry': ['Atom', 'Main'],
+    'Atom': ['Energy', 'Electron'],
+    'Energy': ['Atom'],
+    'Electron': [],
+};
+
+function getStubs() {
+    const queriedTitles: string[] = [];
+    const mw = {
+        namespaces: { '': { num: 0 }, 'user': { num: 2 } },
+        namespacesToMirror: [''],
+        pageLinksApiUrl: (titles: string[], namespaces: number[], continueStr: string) => JSON.stringify({ titles, namespaces, continueStr }),
+    } as any;
+    /* Links come in two batches, to go through the continuation */
+    const downloader = {
+        speed: 2,
+        async getJSON(url: string) {
+            const { titles, namespaces, continueStr } = JSON.parse(url);
+            if (!continueStr) {
+                queriedTitles.push(...titles);
+            }
+            const pages = titles.map((title: string, i: number) => {
+                const target = title === 'Old main' ? 'Main' : title;
+                if (!wikiLinks[target]) {
+                    return { ns: 0, title: target, missing: '' };
+                }
+                const links = wikiLinks[target]
+                    .map((link) => ({ ns: link.startsWith('User:') ? 2 : 0, title: link }))
+                    .filter(({ ns }) => namespaces.includes(ns));
+                return { pageid: i, ns: 0, title: target, links: continueStr ? links.slice(1) : links.slice(0, 1) };
+            });
+            return {
+                query: { pages: pages.reduce((acc: KVS<any>, page: any, i: number) => ({ ...acc, [page.pageid || -i - 1]: page }), {}) },
+                ...(continueStr ? {} : { continue: { plcontinue: 'next' } }),
+            };
+        },
+    } as any;
+    return { mw, downloader, queriedTitles };
+}
+
+test('Link crawl', async (t) => {
+    const { mw, downloader, queriedTitles } = getStubs();
+
+    const oneHop = await crawlArticleIds(downloader, mw, { seeds: ['Main'], hops: 1, maxArticles: 100 });
+    t.deepEqual(oneHop.sort(), ['Chemistry', 'Main', 'Missing', 'Physics'], 'Links of the seeds are followed');
+
+    const all = await crawlArticleIds(downloader, mw, { seeds: ['Old_main'], hops: 5, maxArticles: 100 });
+    t.deepEqual(all.sort(), ['Atom', 'Chemistry', 'Electron', 'Energy', 'Main', 'Physics'], 'Redirects are followed and missing pages dropped');
+    t.notOk(all.includes('User:Foo'), 'Links to namespaces not to mirror are not followed');
+    t.equal(queriedTitles.filter((title) => title === 'Atom').length, 1, 'Pages are only crawled once');
+
+    const budget = await crawlArticleIds(downloader, mw, { seeds: ['Main'], hops: 2, maxArticles: 4 });
+    t.equal(budget.length, 4, 'Budget is respected');
+    t.ok(budget.includes('Atom'), 'Most linked pages are kept when the budget is hit');
+    t.notOk(budget.includes('Energy'), 'Less linked pages are left out when the budget is hit');
+
+    const listPath = tmp.fileSync().name;
+    await writeArticleList(listPath, budget);
+    t.deepEqual(fs.readFileSync(listPath, 'utf8').split('\n').filter((a) => a), budget, 'List can be reused as article list');
+});
+
+test('Link crawl arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_crawl(2, 500), 'Valid arguments');
+    t.throws(() => sanitize_crawl(0, undefined), /not valid/, 'Hops are strictly positive');
+    t.throws(() => sanitize_crawl(undefined, 500), /needs --crawlHops/, 'Budget needs hops');
+    t.throws(() => sanitize_crawl(1, 'many'), /not valid/, 'Budget is a number');
+});
@@ -0,0 +1,83 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import logger from '../../src/Logger';
+import { MemoryKvs, memoryKvsFactory } from 'src/util/MemoryKvs';
+
+const mock = {
+    testItem1: { value: 1 },
+    testItem2: { value: 2 },
+    testItem3: { value: 3 },
+    testItem4: { value: 4 }
+};
+
+test('MemoryKvs Tests', async (t) => {
+    const kvs = new MemoryKvs<{ value: number }>('test-memory-kvs');
+
+    const len = await kvs.len();
+    t.equal(len, 0, `New MemoryKvs should have 0 items`);
+
+    await Promise.all(Object.entries(mock).map(([k, v]) => kvs.set(k, v)));
+    t.equal(await kvs.len(), 4, `Can set items`);
+    t.deepEqual((await kvs.keys()).sort(), Object.keys(mock), `Can get the keys properly`);
+
+    const item2 = await kvs.get('testItem2');
+    t.equal(item2.value, 2, `Can get single item`);
+    item2.value = 42;
+    t.equal((await kvs.get('testItem2')).value, 2, `Items are copies of the stored values`);
+
+    const { testItem1, testItem4, missing } = await kvs.getMany(['testItem1', 'testItem4', 'missing']);
+    t.equal(testItem1.value, 1, 'Can get multiple items (1/2)');
+    t.equal(testItem4.value, 4, 'Can get multiple items (2/2)');
+    t.equal(missing, null, 'Missing items are null');
+    t.deepEqual(await kvs.exists(['testItem1', 'missing']), { testItem1: 1, missing: 0 }, 'Can check if items exist');
+
+    t.equal((await memoryKvsFactory<{ value: number }>('test-memory-kvs').get('testItem3')).value, 3, 'Stores of the same name share their content');
+
+    await kvs.delete('testItem2');
+    t.equal(await kvs.get('testItem2'), null, `Can delete single item`);
+
+    await kvs.deleteMany(['testItem1', 'testItem4']);
+    t.equal(await kvs.len(), 1, `Can delete multiple items`);
+
+    await kvs.setMany({ a: { value: 5 }, b: { value: 6 } });
+    t.equal(await kvs.len(), 3, `Can set multiple items`);
+
+    await kvs.flush();
+    t.equal(await kvs.len(), 0, `Can flush KVS`);
+});
+
+test('MemoryKvs iterateItems', async (t) => {
+    const kvs = new MemoryKvs<{ value: number }>('test-memory-kvs-iterate');
+    const items = Array.from(Array(95).keys()).reduce((acc, i) => ({ ...acc, [`item${i}`]: { value: i } }), {});
+    await kvs.setMany(items);
+
+    const seen: string[] = [];
+    const workerIds = new Set<number>();
+    await kvs.iterateItems(3, async (batch, workerId) => {
+        workerIds.add(workerId);
+        seen.push(...Object.keys(batch));
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    });
+
+    t.equal(seen.length, 95, 'All items are iterated');
+    t.equal(new Set(seen).size, 95, 'Each item is iterated once');
+    t.deepEqual(Array.from(workerIds).sort(), [0, 1, 2], 'All workers are used');
+    await kvs.flush();
+});
+
+test('MemoryKvs size warning', async (t) => {
+    const logs: string[] = [];
+    const log = logger.log;
+    logger.log = (...args: any[]) => { logs.push(args.join(' ')); };
+    try {
+        const kvs = new MemoryKvs<{ value: number }>('test-memory-kvs-large', 3);
+        await kvs.setMany({ a: { value: 1 }, b: { value: 2 }, c: { value: 3 } });
+        t.equal(logs.length, 0, 'No warning up to the size');
+        await kvs.set('d', { value: 4 });
+        await kvs.set('e', { value: 5 });
+        t.deepEqual(logs, ['Store [test-memory-kvs-large] has more than [3] items in memory, use --kvs=redis for large scrapes'], 'Warned once above the size');
+        await kvs.flush();
+    } finally {
+        logger.log = log;
+    }
+});
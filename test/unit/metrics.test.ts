@@ -0,0 +1,61 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { Metrics, startMetricsServer } from '../../src/util/Metrics';
+import { sanitize_metrics } from '../../src/sanitize-argument';
+
+test('Counters in the Prometheus text format', async (t) => {
+    const metrics = new Metrics();
+    metrics.inc('mwoffliner_http_requests_total', { host: 'en.wikipedia.org', status: '200' });
+    metrics.inc('mwoffliner_http_requests_total', { host: 'en.wikipedia.org', status: '200' });
+    metrics.inc('mwoffliner_http_requests_total', { host: 'upload.wikimedia.org', status: 'error' });
+    metrics.inc('mwoffliner_imagemin_saved_bytes_total', {}, 1024);
+    metrics.inc('mwoffliner_http_downloaded_bytes_total', { host: 'a"b\\c' }, 10);
+
+    const lines = (await metrics.render()).split('\n');
+    t.ok(lines.includes('# TYPE mwoffliner_http_requests_total counter'), 'Type of the counter');
+    t.ok(lines.includes('mwoffliner_http_requests_total{host="en.wikipedia.org",status="200"} 2'), 'Counter incremented by labels');
+    t.ok(lines.includes('mwoffliner_http_requests_total{host="upload.wikimedia.org",status="error"} 1'), 'Counter of other labels');
+    t.ok(lines.includes('mwoffliner_imagemin_saved_bytes_total 1024'), 'Counter without labels');
+    t.ok(lines.includes('mwoffliner_http_downloaded_bytes_total{host="a\\"b\\\\c"} 10'), 'Escaped label values');
+    t.ok(lines.some((line) => line.startsWith('mwoffliner_process_resident_memory_bytes ')), 'Process memory');
+    t.notOk(lines.includes('# HELP mwoffliner_articles Articles of the dumps, by status (success, fail, reused)'), 'No header for metrics without samples');
+});
+
+test('Collectors', async (t) => {
+    const metrics = new Metrics();
+    let success = 3;
+    const collector = async () => [{ name: 'mwoffliner_articles', labels: { dump: 'wikipedia_en_all', status: 'success' }, value: success }];
+    metrics.addCollector(collector);
+    t.ok((await metrics.render()).includes('mwoffliner_articles{dump="wikipedia_en_all",status="success"} 3'), 'Gauge read from the collector');
+    success = 5;
+    t.ok((await metrics.render()).includes('mwoffliner_articles{dump="wikipedia_en_all",status="success"} 5'), 'Gauge read again when scraped');
+    metrics.removeCollector(collector);
+    t.notOk((await metrics.render()).includes('mwoffliner_articles'), 'Removed collector');
+});
+
+test('Metrics endpoint', async (t) => {
+    const metrics = new Metrics();
+    metrics.inc('mwoffliner_http_requests_total', { host: 'en.wikipedia.org', status: '404' });
+    const server = await startMetricsServer(0, '127.0.0.1', metrics);
+    const { port } = server.address() as AddressInfo;
+    try {
+        const resp = await axios.get(`http://127.0.0.1:${port}/metrics`);
+        t.equal(resp.status, 200, 'Metrics served');
+        t.ok(String(resp.headers['content-type']).startsWith('text/plain'), 'Text format');
+        t.ok(resp.data.includes('mwoffliner_http_requests_total{host="en.wikipedia.org",status="404"} 1'), 'Metrics of the registry');
+
+        const err = await axios.get(`http://127.0.0.1:${port}/other`).catch((e) => e);
+        t.equal(err.response.status, 404, 'Other paths not found');
+    } finally {
+        server.close();
+    }
+});
+
+test('Metrics arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_metrics(undefined, undefined), 'No metrics');
+    t.doesNotThrow(() => sanitize_metrics('9100', '0.0.0.0'), 'Port and host');
+    t.throws(() => sanitize_metrics('70000', undefined), /not valid/, 'Port out of range');
+    t.throws(() => sanitize_metrics(undefined, '0.0.0.0'), /needs --metricsPort/, 'Host without port');
+});
@@ -0,0 +1,47 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import tmp from 'tmp';
+import http from 'http';
+import axios from 'axios';
+import type { AddressInfo } from 'net';
+import { MockWiki } from '../mockwiki/MockWiki';
+
+test('Mock wiki records and replays responses', async (t) => {
+    const realWiki = http.createServer((req, res) => {
+        const { host } = req.headers;
+        if (req.url.startsWith('/w/api.php')) {
+            res.writeHead(200, { 'content-type': 'application/json', 'etag': '"42"', 'set-cookie': 'session=1' });
+            res.end(JSON.stringify({ query: { general: { server: `//${host}`, logo: `http://${host}/logo.png` } } }));
+        } else {
+            res.writeHead(404, { 'content-type': 'text/plain' });
+            res.end('Not found');
+        }
+    });
+    await new Promise((resolve) => realWiki.listen(0, '127.0.0.1', resolve));
+    const realWikiUrl = `http://127.0.0.1:${(realWiki.address() as AddressInfo).port}`;
+
+    const fixturesDir = tmp.dirSync().name;
+    const recorder = new MockWiki({ fixturesDir, recordFrom: realWikiUrl, hosts: [] });
+    const recorderUrl = await recorder.start();
+
+    const { data: recorded, headers } = await axios.get(`${recorderUrl}/w/api.php?action=query&meta=siteinfo`);
+    t.equal(recorded.query.general.server, recorderUrl, 'Protocol relative urls point to the mock wiki');
+    t.equal(recorded.query.general.logo, `${recorderUrl}/logo.png`, 'Absolute urls point to the mock wiki');
+    t.equal(headers.etag, '"42"', 'Validators are recorded');
+    t.notOk(headers['set-cookie'], 'Session cookies are not recorded');
+    const notFound = await axios.get(`${recorderUrl}/wiki/Missing`, { validateStatus: () => true });
+    t.equal(notFound.status, 404, 'Errors are recorded');
+
+    await recorder.stop();
+    await new Promise((resolve) => realWiki.close(resolve));
+
+    const mockWiki = new MockWiki({ fixturesDir });
+    const mockWikiUrl = await mockWiki.start();
+
+    const { data: replayed } = await axios.get(`${mockWikiUrl}/w/api.php?action=query&meta=siteinfo`);
+    t.equal(replayed.query.general.server, mockWikiUrl, 'Recorded urls point to the replaying mock wiki');
+    const missing = await axios.get(`${mockWikiUrl}/w/api.php?action=parse`, { validateStatus: () => true });
+    t.equal(missing.status, 404, 'Requests without fixture are not found');
+
+    await mockWiki.stop();
+});
@@ -0,0 +1,97 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import http from 'http';
+import * as QueryStringParser from 'querystring';
+import type { AddressInfo } from 'net';
+import Downloader from '../../src/Downloader';
+import MediaWiki from '../../src/MediaWiki';
+import { authorizationHeader, oauth1Header } from '../../src/util/mwAuth';
+import { sanitize_mwOAuth } from '../../src/sanitize-argument';
+
+test('OAuth 1.0a signature', async (t) => {
+    // Reference example of https://developer.twitter.com/en/docs/authentication/oauth-1-0a/creating-a-signature
+    const header = oauth1Header(
+        'POST',
+        'https://api.twitter.com/1.1/statuses/update.json?include_entities=true',
+        { status: 'Hello Ladies + Gentlemen, a signed OAuth request!' },
+        {
+            consumerKey: 'xvz1evFS4wEEPTGEFPHBog',
+            consumerSecret: 'kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw',
+            accessToken: '370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb',
+            accessSecret: 'LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE',
+        },
+        'kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg',
+        1318622958,
+    );
+    t.ok(header.includes('oauth_signature="hCtSmYh%2BiHYCEqBWrE7C7hYmtUk%3D"'), 'Signature of the reference example');
+    t.ok(header.startsWith('OAuth oauth_consumer_key="xvz1evFS4wEEPTGEFPHBog"'), 'OAuth header');
+    t.equal(authorizationHeader({ accessToken: 'abc' }, 'GET', 'https://example.org/w/api.php'), 'Bearer abc', 'OAuth 2 bearer token');
+});
+
+test('OAuth arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_mwOAuth({ mwOAuthAccessToken: 'abc' }), 'OAuth 2');
+    t.doesNotThrow(() => sanitize_mwOAuth({ mwOAuthConsumerKey: 'a', mwOAuthConsumerSecret: 'b', mwOAuthAccessToken: 'c', mwOAuthAccessSecret: 'd' }), 'OAuth 1.0a');
+    t.throws(() => sanitize_mwOAuth({ mwOAuthConsumerKey: 'a', mwOAuthAccessToken: 'c' }), /OAuth 1.0a needs/, 'Incomplete OAuth 1.0a');
+});
+
+test('Login with a bot password and login again when the session expires', async (t) => {
+    const calls: string[] = [];
+    let sessions = 0;
+    let expired = false;
+    const wiki = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => body += chunk);
+        req.on('end', () => {
+            const params: KVS<any> = { ...QueryStringParser.parse(req.url.split('?')[1] || ''), ...QueryStringParser.parse(body) };
+            const session = (/wiki_session=(\d+)/.exec(req.headers.cookie || '') || [])[1];
+            const reply = (json: any, headers: KVS<string> = {}) => {
+                res.writeHead(200, { 'content-type': 'application/json', ...headers });
+                res.end(JSON.stringify(json));
+            };
+            calls.push(params.action === 'query' ? params.meta || params.titles : params.action);
+            if (params.meta === 'tokens') {
+                sessions += 1;
+                return reply({ query: { tokens: { logintoken: `token${sessions}+\\` } } }, { 'set-cookie': `wiki_session=${sessions}; path=/; HttpOnly` });
+            }
+            if (params.action === 'login') {
+                const valid = params.lgname === 'User@Bot' && params.lgpassword === 'secret' && params.lgtoken === `token${session}+\\`;
+                return reply({ login: valid ? { result: 'Success', lgusername: 'User' } : { result: 'Failed', reason: 'Wrong token' } });
+            }
+            if (params.meta === 'userinfo') {
+                return reply({ query: { userinfo: session ? { id: 1, name: 'User' } : { id: 0, name: '127.0.0.1', anon: '' } } });
+            }
+            if (params.assert === 'user' && (!session || expired)) {
+                expired = false;
+                return reply({ error: { code: 'assertuserfailed', info: 'You are no longer logged in' } });
+            }
+            reply({ query: { pages: { 1: { title: params.titles, session } } } });
+        });
+    });
+    await new Promise((resolve) => wiki.listen(0, '127.0.0.1', resolve));
+    const wikiUrl = `http://127.0.0.1:${(wiki.address() as AddressInfo).port}`;
+
+    try {
+        const mw = new MediaWiki({ base: wikiUrl, username: 'User@Bot', password: 'secret' } as MWConfig);
+        const downloader = new Downloader({ mw, uaString: '', speed: 1, reqTimeout: 1000 * 60, noLocalParserFallback: false, forceLocalParser: false, webp: false, optimisationCacheUrl: '' });
+        await mw.login(downloader);
+        t.ok(mw.hasSession, 'Logged in');
+        t.deepEqual(calls, ['tokens', 'login', 'userinfo'], 'Token, login then check');
+
+        const pageUrl = `${mw.apiUrl.href}action=query&format=json&titles=Private`;
+        const page: any = await downloader.getJSON(pageUrl);
+        t.equal(page.query.pages[1].session, '1', 'Session cookie is sent with the requests');
+
+        calls.length = 0;
+        expired = true;
+        const pageAgain: any = await downloader.getJSON(pageUrl);
+        t.equal(pageAgain.query.pages[1].session, '2', 'New session after the session expired');
+        t.deepEqual(calls, ['Private', 'tokens', 'login', 'userinfo', 'Private'], 'Login again then request again');
+
+        const badMw = new MediaWiki({ base: wikiUrl, username: 'User@Bot', password: 'wrong' } as MWConfig);
+        const badDownloader = new Downloader({ mw: badMw, uaString: '', speed: 1, reqTimeout: 1000 * 60, noLocalParserFallback: false, forceLocalParser: false, webp: false, optimisationCacheUrl: '' });
+        const err = await badMw.login(badDownloader).catch((e) => e);
+        t.ok(/Login Failed: Wrong token/.test(err && err.message), 'Wrong bot password');
+    } finally {
+        await new Promise((resolve) => wiki.close(resolve));
+    }
+});
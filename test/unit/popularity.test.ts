@@ -0,0 +1,97 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import zlib from 'zlib';
+import test from 'blue-tape';
+import { memoryKvsFactory } from '../../src/util/MemoryKvs';
+import { articleDetailXId, populateArticleDetail } from '../../src/stores';
+import { popularityScore, rankArticles, readPageviews } from '../../src/util/popularity';
+import { sanitize_topArticles } from '../../src/sanitize-argument';
+
+/* Signals of the wiki pages, the links come in batches of 2 to go through the continuation */
+const pages: KVS<{ length: number, linkshere: number, langlinks: number }> = {
+    'Paris': { length: 200000, linkshere: 7, langlinks: 5 },
+    'Obscure village': { length: 800, linkshere: 1, langlinks: 0 },
+    'France': { length: 150000, linkshere: 5, langlinks: 6 },
+    'Sandbox': { length: 20, linkshere: 0, langlinks: 0 },
+};
+
+function getStubs() {
+    const mw = {
+        namespaces: { '': { num: 0 } },
+        namespacesToMirror: [''],
+        popularityApiUrl: (titles: string[], namespaces: number[], continueOpts: KVS<string>) => JSON.stringify({ titles, offset: Number(continueOpts.offset) || 0 }),
+    } as any;
+    const downloader = {
+        speed: 2,
+        async getJSON(url: string) {
+            const { titles, offset } = JSON.parse(url);
+            let hasMore = false;
+            const respPages = titles.map((id: string, i: number) => {
+                const title = id.replace(/_/g, ' ');
+                const { length, linkshere, langlinks } = pages[title];
+                const slice = (count: number) => Array.from(Array(Math.max(Math.min(count - offset, 2), 0)).keys()).map(() => ({}));
+                hasMore = hasMore || linkshere > offset + 2 || langlinks > offset + 2;
+                return { pageid: i, title, length, linkshere: slice(linkshere), langlinks: slice(langlinks) };
+            });
+            return { query: { pages: respPages }, ...(hasMore ? { continue: { offset: String(offset + 2) } } : {}) };
+        },
+    } as any;
+    return { mw, downloader };
+}
+
+test('Popularity score', async (t) => {
+    const popular = popularityScore({ inboundLinks: 1000, length: 100000, langLinks: 100, pageviews: 50000 });
+    const unpopular = popularityScore({ inboundLinks: 2, length: 500, langLinks: 0, pageviews: 10 });
+    t.ok(popular > unpopular, 'More signals give a higher score');
+    t.equal(popularityScore({ inboundLinks: 0, length: 0, langLinks: 0, pageviews: 0 }), 0, 'No signal gives no score');
+});
+
+test('Pageviews dump', async (t) => {
+    const dumpPath = tmp.fileSync({ postfix: '.gz' }).name;
+    fs.writeFileSync(dumpPath, zlib.gzipSync([
+        'en Paris 100 0',
+        'en.m Paris 50 0',
+        'fr Paris 1000 0',
+        'en Sandbox 3 0',
+        'en Unknown 7 0',
+        '',
+    ].join('\n')));
+    const candidates = new Set(['Paris', 'Sandbox']);
+
+    const allProjects = await readPageviews(dumpPath, candidates);
+    t.equal(allProjects.get('Paris'), 1150, 'Views are summed');
+    t.notOk(allProjects.has('Unknown'), 'Only candidates are counted');
+
+    const enProjects = await readPageviews(dumpPath, candidates, ['en', 'en.m']);
+    t.equal(enProjects.get('Paris'), 150, 'Views are filtered by project');
+
+    const plainPath = tmp.fileSync().name;
+    fs.writeFileSync(plainPath, 'Sandbox 42\n');
+    t.equal((await readPageviews(plainPath, candidates)).get('Sandbox'), 42, 'Lines without project are read');
+});
+
+test('Article ranking', async (t) => {
+    populateArticleDetail(memoryKvsFactory, 'popularity');
+    for (const title of Object.keys(pages)) {
+        await articleDetailXId.set(title.replace(/ /g, '_'), { title });
+    }
+    const { mw, downloader } = getStubs();
+
+    const ranked = await rankArticles(downloader, mw);
+    t.deepEqual(ranked, ['Paris', 'France', 'Obscure_village', 'Sandbox'], 'Articles are ranked by their API signals');
+
+    const pageviewsPath = tmp.fileSync().name;
+    fs.writeFileSync(pageviewsPath, 'Sandbox 100\n');
+    const withPageviews = await rankArticles(downloader, mw, { pageviewsFile: pageviewsPath });
+    t.equal(withPageviews[2], 'Sandbox', 'Pageviews are taken into account');
+
+    await articleDetailXId.flush();
+});
+
+test('Popularity arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_topArticles(1000, undefined, undefined), 'Valid arguments');
+    t.throws(() => sanitize_topArticles(0, undefined, undefined), /not valid/, 'Top articles is strictly positive');
+    t.throws(() => sanitize_topArticles(undefined, undefined, 'en'), /need --topArticles/, 'Pageviews need top articles');
+    t.throws(() => sanitize_topArticles(10, '/does/not/exist', undefined), /does not exist/, 'Pageviews file is checked');
+});
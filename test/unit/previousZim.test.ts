@@ -0,0 +1,137 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import tmp from 'tmp';
+import fs from 'fs';
+import pathParser from 'path';
+import { ZimArticle, ZimCreator } from '@openzim/libzim';
+import { PreviousZim } from '../../src/util/PreviousZim';
+import { Dump } from '../../src/Dump';
+import MediaWiki from '../../src/MediaWiki';
+import { memoryKvsFactory } from '../../src/util/MemoryKvs';
+import { articleDetailXId, populateArticleDetail, populateArticlesToRetry, populateFilesToDownload, populateRedirects, redirectsXId } from '../../src/stores';
+import { saveArticles } from '../../src/util/saveArticles';
+
+const articleHtml = `<!DOCTYPE html><html><head>
+<link href="../-/s/css_modules/style.css" rel="stylesheet" type="text/css" class="" />
+<link href="../-/s/css_modules/ext.cite.styles.css" rel="stylesheet" type="text/css" class="" />
+<script src="../-/j/js_modules/jsConfigVars.js" class=""></script>
+<script src="../-/j/js_modules/node_module/details-element-polyfill/dist/details-element-polyfill.js" class=""></script>
+<script src="../-/j/js_modules/startup.js" class=""></script>
+</head><body>
+<img src="../I/m/London_Eye.jpg.webp" loading="lazy" />
+<video poster="../I/m/Thames.png.webp"><source src="../I/m/Thames.webm" /><track src="../-/Thames-en.vtt" /></video>
+<a href="./Paris">Paris</a>
+<a class="external text" href="https://en.wikipedia.org/wiki/?title=London&amp;oldid=42">Wikipedia</a>
+</body></html>`;
+
+async function createPreviousZim(dir: string) {
+    const zimPath = pathParser.join(dir, 'wikipedia_en_all_2020-10.zim');
+    const zimCreator = new ZimCreator({ fileName: zimPath, fullTextIndexLanguage: '', welcome: 'index' }, {});
+    await zimCreator.addArticle(new ZimArticle({ url: 'London', data: articleHtml, ns: 'A', mimeType: 'text/html', title: 'London' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 'm/London_Eye.jpg.webp', data: 'webp', ns: 'I' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 'j/js_modules/jsConfigVars.js', data: 'RLQ', ns: '-' }));
+    await zimCreator.finalise();
+    return zimPath;
+}
+
+test('Previous ZIM without manifest', async (t) => {
+    const zimPath = await createPreviousZim(tmp.dirSync().name);
+    const previousZim = new PreviousZim(zimPath);
+
+    t.equal(await previousZim.getUnchangedArticle('London', 'A', { revisionId: 43 } as ArticleDetail, true), null, 'Edited article is not reused');
+    t.equal(await previousZim.getUnchangedArticle('Berlin', 'A', { revisionId: 42 } as ArticleDetail, true), null, 'Missing article is not reused');
+
+    const article = await previousZim.getUnchangedArticle('London', 'A', { revisionId: 42 } as ArticleDetail, true);
+    t.ok(article, 'Revision is read from the article footer');
+    t.equal(article.title, 'London', 'Title is reused');
+    t.deepEqual(article.jsModules, ['startup'], 'Only MediaWiki js modules are extracted');
+    t.deepEqual(article.cssModules, ['ext.cite.styles'], 'Only MediaWiki css modules are extracted');
+    t.deepEqual(article.files, [
+        { path: 'm/London_Eye.jpg', url: 'zim:I/m/London_Eye.jpg.webp' },
+        { path: 'm/Thames.png', url: 'zim:I/m/Thames.png.webp' },
+        { path: 'm/Thames.webm', url: 'zim:I/m/Thames.webm' },
+        { path: 'Thames-en.vtt', url: 'zim:-/Thames-en.vtt', namespace: '-' },
+    ], 'Media and subtitles are extracted');
+    t.deepEqual(article.links, ['Paris'], 'Linked articles are extracted');
+    t.deepEqual(article.unmirroredLinks, [], 'Removed links are unknown without manifest');
+
+    const { content, responseHeaders } = await previousZim.getFile('zim:I/m/London_Eye.jpg.webp');
+    t.equal(content.toString(), 'webp', 'File is copied from the previous ZIM');
+    t.equal(responseHeaders.path_postfix, '.webp', 'Webp postfix is kept');
+    t.equal(await previousZim.getJsConfigVars(), 'RLQ', 'jsConfigVars are copied from the previous ZIM');
+    previousZim.close();
+});
+
+test('Previous ZIM with manifest', async (t) => {
+    const dir = tmp.dirSync().name;
+    const zimPath = await createPreviousZim(dir);
+    await PreviousZim.writeManifest(zimPath, { London: 41 }, { London: ['Berlin'] });
+    t.ok(fs.existsSync(pathParser.join(dir, 'wikipedia_en_all_2020-10.manifest.json')), 'Manifest is written alongside the ZIM');
+
+    const previousZim = new PreviousZim(zimPath);
+    t.equal(await previousZim.getUnchangedArticle('London', 'A', { revisionId: 42 } as ArticleDetail, true), null, 'Manifest revision has precedence');
+    const article = await previousZim.getUnchangedArticle('London', 'A', { revisionId: 41 } as ArticleDetail, true);
+    t.deepEqual(article.unmirroredLinks, ['Berlin'], 'Removed links are read from the manifest');
+    t.equal(await previousZim.getUnchangedArticle('London', 'A', { revisionId: 41 } as ArticleDetail, false), null, 'Webp images are not reused without --webp');
+    previousZim.close();
+});
+
+test('Reuse of the articles whose links have not changed', async (t) => {
+    const dir = tmp.dirSync().name;
+    const zimPath = await createPreviousZim(dir);
+    await PreviousZim.writeManifest(zimPath, { London: 42 }, { London: ['Berlin'] });
+
+    populateArticleDetail(memoryKvsFactory, 'previousZim');
+    populateArticlesToRetry(memoryKvsFactory, 'previousZim');
+    populateFilesToDownload(memoryKvsFactory, 'previousZim');
+    populateRedirects(memoryKvsFactory, 'previousZim');
+    const mwMetaData = { langIso2: 'en', langIso3: 'eng', title: 'Wikipedia', textDir: 'ltr', webUrl: 'https://en.wikipedia.org/wiki/', baseUrl: 'https://en.wikipedia.org' } as MWMetaData;
+    const mw = new MediaWiki({ base: 'https://en.wikipedia.org' } as MWConfig);
+    const rendered: string[] = [];
+    const downloader = {
+        speed: 1,
+        webp: true,
+        getArticle: async (articleId: string) => {
+            rendered.push(articleId);
+            return [{ articleId, displayTitle: articleId, html: '<body><p>London is not <a rel="mw:WikiLink" href="./Rome">Rome</a></p></body>' }];
+        },
+        getJSON: async () => ({ parse: { modules: [] as string[], modulescripts: [] as string[], modulestyles: [] as string[], headhtml: { '*': '' } } }),
+    } as any;
+
+    const scrape = async (articleIds: string[], redirects: string[] = []) => {
+        await articleDetailXId.flush();
+        await redirectsXId.flush();
+        for (const articleId of articleIds) {
+            await articleDetailXId.set(articleId, { title: articleId, revisionId: 42, timestamp: '2020-10-21T00:00:00Z' });
+        }
+        for (const redirect of redirects) {
+            await redirectsXId.set(redirect, { targetId: 'London', title: redirect });
+        }
+        const dump = new Dump('', {} as any, mwMetaData);
+        dump.previousZim = new PreviousZim(zimPath);
+        rendered.length = 0;
+        await saveArticles({ addArticle: async () => undefined as void } as any, downloader, mw, dump);
+        dump.previousZim.close();
+        return dump.status.articles.reused;
+    };
+
+    t.equal(await scrape(['London', 'Paris']), 1, 'Article reused when its links have not changed');
+    t.deepEqual((await articleDetailXId.get('London')).unmirroredLinks, ['Berlin'], 'Removed links of the reused article are kept');
+    t.equal(await scrape(['London'], ['Paris']), 1, 'Article reused when a linked article became a redirect');
+    t.equal(await scrape(['London']), 0, 'Article rendered again when a linked article is not mirrored anymore');
+    t.deepEqual(rendered, ['London'], 'Article downloaded again');
+    t.deepEqual((await articleDetailXId.get('London')).unmirroredLinks, ['Rome'], 'Removed links of the rendered article are kept');
+    t.equal(await scrape(['London', 'Paris', 'Berlin']), 0, 'Article rendered again when a removed link is mirrored now');
+
+    await articleDetailXId.flush();
+    await redirectsXId.flush();
+});
+
+test('Previous ZIM lookup in a directory', async (t) => {
+    const dir = tmp.dirSync().name;
+    for (const fileName of ['wikipedia_en_all_2020-09.zim', 'wikipedia_en_all_2020-10.zim', 'wikipedia_en_all_nopic_2020-11.zim']) {
+        fs.writeFileSync(pathParser.join(dir, fileName), '');
+    }
+    t.equal(PreviousZim.findInDirectory(dir, 'wikipedia_en_all'), pathParser.join(dir, 'wikipedia_en_all_2020-10.zim'), 'Most recent ZIM of the same flavour is found');
+    t.equal(PreviousZim.findInDirectory(dir, 'wikipedia_fr_all'), null, 'No ZIM for other dumps');
+});
@@ -0,0 +1,32 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import { formatDuration, Progress } from '../../src/util/Progress';
+
+test('Duration formatting', async (t) => {
+    t.equal(formatDuration(42.4), '42s', 'Seconds');
+    t.equal(formatDuration(312), '5m12s', 'Minutes');
+    t.equal(formatDuration(3 * 3600 + 7 * 60 + 30), '3h07m', 'Hours');
+});
+
+test('Throughput and ETA', async (t) => {
+    let now = 0;
+    const progress = new Progress('rendering articles', 1000, 100, () => now);
+    t.equal(progress.eta(), undefined, 'No ETA before the first items');
+
+    now = 10 * 1000;
+    progress.tick(200);
+    t.equal(progress.rate(), 20, 'Items done before the start are not in the throughput');
+    t.equal(progress.eta(), 35, 'ETA from the throughput');
+    t.equal(progress.toString(), 'Progress rendering articles [300/1000] [30.0%] [20.0/s] [ETA 35s]', 'Log line');
+    t.equal(progress.toBar(), `rendering articles [${'='.repeat(9)}${' '.repeat(21)}] 30.0% 300/1000 20.0/s ETA 35s`, 'Terminal bar');
+});
+
+test('Progress without total', async (t) => {
+    let now = 0;
+    const progress = new Progress('resolving categories', undefined, 0, () => now);
+    now = 2000;
+    progress.tick(5);
+    t.equal(progress.toString(), 'Progress resolving categories [5] [2.5/s]', 'No percentage nor ETA');
+    progress.addTotal(10);
+    t.equal(progress.toString(), 'Progress resolving categories [5/10] [50.0%] [2.5/s] [ETA 2s]', 'Total found on the way');
+});
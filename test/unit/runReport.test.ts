@@ -0,0 +1,64 @@
+import './bootstrap.test';
+import fs from 'fs';
+import tmp from 'tmp';
+import test from 'blue-tape';
+import { ZimArticle } from '@openzim/libzim';
+import logger from '../../src/Logger';
+import { RunReport } from '../../src/util/RunReport';
+import type { OutputWriter } from '../../src/util/OutputWriter';
+
+test('Run report', async (t) => {
+    const report = new RunReport();
+    const added: any[] = [];
+    const writer: OutputWriter = {
+        async addArticle(article) { added.push(article); },
+        async setMetadata() { /* Nothing to do */ },
+        async finalise() { /* Nothing to do */ },
+    };
+    const trackedWriter = report.trackOutput(writer);
+
+    report.startPhase('articles');
+    t.equal(logger.phase, 'articles', 'Log lines have the current phase');
+    await trackedWriter.addArticle(new ZimArticle({ ns: 'A', url: 'London', data: '<html></html>', mimeType: 'text/html' }));
+    await trackedWriter.addArticle(new ZimArticle({ ns: 'A', url: 'Londres', data: '', mimeType: 'text/html', redirectUrl: 'London' }));
+    await trackedWriter.addArticle(new ZimArticle({ ns: 'I', url: 'm/London.jpg', data: 'jpg' }));
+    t.equal(added.length, 3, 'Articles are passed to the writer');
+
+    report.addFailedArticle('Paris', new Error('Parsoid failed'));
+    report.startPhase('media');
+    report.addFailedMedia('m/Paris.jpg', 'https://upload.wikimedia.org/Paris.jpg', { message: 'Request failed', response: { status: 404 } });
+
+    const reportPath = `${tmp.dirSync().name}/wikipedia_en_all.zim.report.json`;
+    await report.write(reportPath, { articles: { success: 1, fail: 1 } });
+    const written = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+
+    t.equal(written.success, true, 'Report is a success without error');
+    t.deepEqual(written.failedArticles, [{ articleId: 'Paris', reason: 'Parsoid failed' }], 'Failed articles have a reason');
+    t.deepEqual(written.failedMedia[0].reason, '[status=404] Request failed', 'Failed media have the HTTP status');
+    t.deepEqual(written.output, { 'text/html': { count: 1, bytes: 13 }, 'image/jpeg': { count: 1, bytes: 3 } }, 'Output is counted by MIME type, without redirects');
+    t.deepEqual(written.phases.map(({ name }: any) => name), ['articles', 'media'], 'Phases are timed');
+    t.ok(written.phases.every(({ duration }: any) => duration >= 0), 'Phases are ended');
+    t.equal(report.toJSON({}, new Error('Out of disk')).error, 'Out of disk', 'Report has the error of a failed dump');
+});
+
+test('JSON logs', async (t) => {
+    const lines: string[] = [];
+    const consoleLog = console.log;
+    console.log = (line: string) => lines.push(line);
+    logger.format = 'json';
+    logger.phase = 'media';
+    try {
+        logger.withContext({ url: 'https://upload.wikimedia.org/Paris.jpg', status: 404, duration: 42 }).log('Failed to download [%s]', 'Paris.jpg');
+        logger.log('Done');
+    } finally {
+        console.log = consoleLog;
+        logger.format = 'text';
+    }
+
+    const [line, doneLine] = lines.map((l) => JSON.parse(l));
+    t.equal(line.level, 'log', 'Line has the level');
+    t.equal(line.phase, 'media', 'Line has the phase');
+    t.equal(line.status, 404, 'Line has the context');
+    t.equal(line.message, 'Failed to download [Paris.jpg]', 'Message is formatted');
+    t.ok(doneLine.time && !doneLine.url, 'Lines without context');
+});
@@ -0,0 +1,54 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import logger from '../../src/Logger';
+import { Dump } from '../../src/Dump';
+import { execute } from '../../src/mwoffliner.lib';
+import { AbortError, ScrapeEventMap, ScrapeEvents } from '../../src/util/ScrapeEvents';
+
+test('Phase events', async (t) => {
+    const events = new ScrapeEvents();
+    const received: Array<[string, any]> = [];
+    events.on('phaseStart', (payload) => received.push(['phaseStart', payload]));
+    events.on('phaseEnd', (payload) => received.push(['phaseEnd', payload]));
+
+    const dump = new Dump('', {} as any, {} as any, undefined, events);
+    dump.outFile = '/tmp/wikipedia_en_all_2020-10.zim';
+    dump.startPhase('articles');
+    dump.startPhase('media');
+    dump.endPhase();
+    dump.endPhase();
+
+    t.deepEqual(received.map(([event, { phase }]) => `${event} ${phase}`), [
+        'phaseStart articles',
+        'phaseEnd articles',
+        'phaseStart media',
+        'phaseEnd media',
+    ], 'Each phase starts and ends once');
+    t.equal(received[0][1].outFile, dump.outFile, 'Events carry the output of the dump');
+    t.ok(received[1][1].duration >= 0, 'Phase duration');
+});
+
+test('Aborted dump', async (t) => {
+    const signal = { aborted: false };
+    const dump = new Dump('', {} as any, {} as any, undefined, new ScrapeEvents(), signal);
+    dump.startPhase('articles');
+    signal.aborted = true;
+    t.throws(() => dump.startPhase('media'), AbortError, 'Next phase is not started');
+
+    const err = await execute({ mwUrl: 'https://en.wikipedia.org', adminEmail: 'test@kiwix.org' }, { signal }).catch((e) => e);
+    t.ok(err instanceof AbortError, 'Aborted scrape rejects without doing anything');
+});
+
+test('Warning events', async (t) => {
+    const warnings: Array<ScrapeEventMap['warning']> = [];
+    logger.events = new ScrapeEvents();
+    logger.events.on('warning', (warning) => warnings.push(warning));
+    try {
+        logger.warn('Failed to download [%s]', 'London');
+        logger.withContext({ articleId: 'Paris' }).warn('Failed to download [Paris]');
+        logger.log('Not a warning');
+    } finally {
+        logger.events = undefined;
+    }
+    t.deepEqual(warnings, [{ message: 'Failed to download [London]' }, { message: 'Failed to download [Paris]' }], 'Warnings are emitted even without --verbose');
+});
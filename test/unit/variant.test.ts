@@ -0,0 +1,48 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import tmp from 'tmp';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import Downloader from '../../src/Downloader';
+import MediaWiki from '../../src/MediaWiki';
+import { HttpCache } from '../../src/util/HttpCache';
+import { sanitize_variant } from '../../src/sanitize-argument';
+
+test('Language variant argument', async (t) => {
+    t.doesNotThrow(() => sanitize_variant('zh-hans,zh-hant', undefined), 'Several variants');
+    t.doesNotThrow(() => sanitize_variant('sr-el', 'wikipedia_sr'), 'One variant with a filename prefix');
+    t.throws(() => sanitize_variant('zh-hans,zh-hant', 'wikipedia_zh'), /filenamePrefix/, 'Several variants with a filename prefix');
+    t.throws(() => sanitize_variant('zh hans', undefined), /not valid/, 'Invalid variant');
+});
+
+test('Language variants of the site info', async (t) => {
+    const mw = new MediaWiki({ base: 'https://zh.wikipedia.org' } as MWConfig);
+    const general = { base: 'https://zh.wikipedia.org/wiki/Wikipedia:首页', sitename: '维基百科', lang: 'zh', fallback: [] as any[] };
+    const downloader = (variants?: any[]) => ({ query: async () => ({ query: { general: { ...general, variants } } }) }) as any;
+    const { variants } = await mw.getSiteInfo(downloader([{ code: 'zh', name: 'zh' }, { code: 'zh-hans', name: 'zh-hans' }, { code: 'zh-hant', name: 'zh-hant' }]));
+    t.deepEqual(variants, ['zh', 'zh-hans', 'zh-hant'], 'Variants of the wiki');
+    t.deepEqual((await mw.getSiteInfo(downloader())).variants, [], 'Wiki without variants');
+});
+
+test('Requests in a language variant', async (t) => {
+    const requests: string[] = [];
+    const wiki = http.createServer((req, res) => {
+        requests.push(`${req.url} ${req.headers['accept-language'] || ''}`.trim());
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ lang: req.headers['accept-language'] || 'zh' }));
+    });
+    await new Promise((resolve) => wiki.listen(0, '127.0.0.1', resolve));
+    const wikiUrl = `http://127.0.0.1:${(wiki.address() as AddressInfo).port}`;
+
+    try {
+        const mw = new MediaWiki({ base: wikiUrl } as MWConfig);
+        const httpCache = new HttpCache(tmp.dirSync().name);
+        const downloader = new Downloader({ mw, uaString: '', speed: 1, reqTimeout: 1000 * 60, noLocalParserFallback: false, forceLocalParser: false, webp: false, optimisationCacheUrl: '', httpCache });
+        const url = `${mw.desktopRestApiUrl.href}Test`;
+        t.deepEqual(await downloader.getJSON(url, { 'accept-language': 'zh-hant' }), { lang: 'zh-hant' }, 'Variant is asked with Accept-Language');
+        t.deepEqual(await downloader.getJSON(url), { lang: 'zh' }, 'Default variant is not taken from the cache of another variant');
+        t.deepEqual(requests, ['/api/rest_v1/page/html/Test zh-hant', '/api/rest_v1/page/html/Test'], 'One request per variant');
+    } finally {
+        await new Promise((resolve) => wiki.close(resolve));
+    }
+});
@@ -0,0 +1,75 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import { Dump } from '../../src/Dump';
+import MediaWiki from '../../src/MediaWiki';
+import { checkZimMetadata } from '../../src/util/zimMetadata';
+import { sanitize_customZimMetadata } from '../../src/sanitize-argument';
+
+const mwMetaData = {
+    creator: 'Wikipedia',
+    title: 'Wikipedia',
+    subTitle: 'From Wikipedia, the free encyclopedia',
+    webUrl: 'https://en.wikipedia.org/wiki/',
+    baseUrl: 'https://en.wikipedia.org/',
+    langIso2: 'en',
+    langIso3: 'eng',
+    license: 'Creative Commons Attribution-Share Alike 3.0',
+} as any;
+
+test('ZIM metadata of a dump', async (t) => {
+    const dump = new Dump('nopic', { filenameDate: '2020-10', publisher: 'Kiwix', tags: 'foo' } as any, mwMetaData);
+    const metadata = checkZimMetadata(dump.computeZimMetadata());
+    t.equal(metadata.Name, 'wikipedia_en_all', 'Name');
+    t.equal(metadata.Description, 'From Wikipedia, the free encyclopedia', 'Description from the wiki');
+    t.equal(metadata.License, 'Creative Commons Attribution-Share Alike 3.0', 'License of the wiki');
+    t.equal(metadata.Source, 'https://en.wikipedia.org/wiki/', 'Source is the wiki');
+    t.ok(/^\d{4}-\d{2}-\d{2}$/.test(metadata.Date), 'Date of the day');
+    t.notOk('LongDescription' in metadata, 'No empty metadata');
+    t.notOk('Relation' in metadata, 'No relation of the whole wiki');
+
+    const selectionDump = new Dump('', { filenameDate: '2020-10', publisher: 'Kiwix', topArticles: 100 } as any, mwMetaData);
+    t.equal(checkZimMetadata(selectionDump.computeZimMetadata()).Relation, 'wikipedia_en_all', 'Selection related to the whole wiki');
+
+    const customDump = new Dump('', {
+        filenameDate: '2020-10',
+        publisher: 'Kiwix',
+        customZimDescription: 'Short',
+        customZimLongDescription: 'A much longer description',
+        customZimLicense: 'CC0',
+        customZimRelation: 'wikipedia_en_medicine',
+    } as any, { ...mwMetaData, subTitle: '' });
+    const customMetadata = checkZimMetadata(customDump.computeZimMetadata());
+    t.equal(customMetadata.LongDescription, 'A much longer description', 'Custom long description');
+    t.equal(customMetadata.License, 'CC0', 'Custom license');
+    t.equal(customMetadata.Relation, 'wikipedia_en_medicine', 'Custom relation');
+});
+
+test('ZIM language of the MediaWiki language codes', async (t) => {
+    const mw = new MediaWiki({ base: 'https://zh-yue.wikipedia.org' } as MWConfig);
+    const downloader = (lang: string, fallback: any[] = []) => ({ query: async () => ({ query: { general: { base: 'https://zh-yue.wikipedia.org/wiki/頭版', sitename: '維基百科', lang, fallback } } }) }) as any;
+    const siteInfo = await mw.getSiteInfo(downloader('zh-yue'));
+    t.equal(siteInfo.langIso2, 'zh-yue', 'MediaWiki language code kept');
+    t.equal(siteInfo.langIso3, 'yue', 'ISO 639-3 code of the language');
+    const metadata = checkZimMetadata(new Dump('', { filenameDate: '2020-10', publisher: 'Kiwix' } as any, { ...mwMetaData, ...siteInfo }).computeZimMetadata());
+    t.equal(metadata.Language, 'yue', 'Valid language metadata');
+
+    t.equal((await mw.getSiteInfo(downloader('be-tarask'))).langIso3, 'bel', 'Language of a variant');
+    t.equal((await mw.getSiteInfo(downloader('simple'))).langIso3, 'eng', 'Language of a MediaWiki specific code');
+    t.equal((await mw.getSiteInfo(downloader('xx-foo', [{ code: 'de' }]))).langIso3, 'deu', 'Language of the fallback');
+    t.equal((await mw.getSiteInfo(downloader('xx-foo'))).langIso3, 'mis', 'Unknown language');
+});
+
+test('ZIM metadata checks', async (t) => {
+    const valid = { Name: 'wikipedia_en_all', Title: 'Wikipedia', Language: 'eng', Creator: 'Wikipedia', Publisher: 'Kiwix', Date: '2020-10-21', Description: 'Encyclopedia' };
+    t.equal(checkZimMetadata({ ...valid, Title: 'W'.repeat(40) }).Title, `${'W'.repeat(29)}…`, 'Too long title is shortened');
+    t.notOk(checkZimMetadata({ ...valid, LongDescription: 'Short' }).LongDescription, 'Long description shorter than the description is ignored');
+    t.throws(() => checkZimMetadata({ ...valid, Language: 'en' }), /Language/, 'Language is ISO 639-3');
+    t.throws(() => checkZimMetadata({ ...valid, Date: '21/10/2020' }), /Date/, 'Date format');
+    t.throws(() => checkZimMetadata({ ...valid, Publisher: '' }), /Publisher\] missing/, 'Mandatory metadata');
+});
+
+test('Custom ZIM metadata arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_customZimMetadata({ customZimTitle: 'Wikipedia', customZimDescription: 'Short', customZimLongDescription: 'Longer description' }), 'Valid metadata');
+    t.throws(() => sanitize_customZimMetadata({ customZimTitle: 'W'.repeat(31) }), /title is longer than \[30\]/, 'Too long title');
+    t.throws(() => sanitize_customZimMetadata({ customZimDescription: 'Description', customZimLongDescription: 'Short' }), /longer than the description/, 'Too short long description');
+});
@@ -0,0 +1,57 @@
+import './bootstrap.test';
+import test from 'blue-tape';
+import tmp from 'tmp';
+import pathParser from 'path';
+import { ZimArticle, ZimCreator } from '@openzim/libzim';
+import { validateZim } from '../../src/util/zimValidation';
+import { sanitize_zimValidation } from '../../src/sanitize-argument';
+
+const indexHtml = `<!DOCTYPE html><html><head>
+<link href="../-/s/style.css" rel="stylesheet" type="text/css" />
+</head><body>
+<img src="../I/m/London_Eye.jpg" />
+<img src="../I/m/Missing.png" />
+<a href="./London">London</a>
+<a href="./Paris">Paris</a>
+<a class="external text" href="https://en.wikipedia.org/wiki/Paris">Wikipedia</a>
+</body></html>`;
+
+async function createZim(dir: string) {
+    const zimPath = pathParser.join(dir, 'wikipedia_en_all_2020-10.zim');
+    const zimCreator = new ZimCreator({ fileName: zimPath, fullTextIndexLanguage: '', welcome: 'index' }, {});
+    await zimCreator.addArticle(new ZimArticle({ url: 'index', data: indexHtml, ns: 'A', mimeType: 'text/html', title: 'Main page' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 'London', data: '<html><body><a href="./index">Home</a></body></html>', ns: 'A', mimeType: 'text/html', title: 'London' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 'Londres', ns: 'A', title: 'Londres', redirectUrl: 'London' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 'm/London_Eye.jpg', data: 'jpeg', ns: 'I', mimeType: 'image/jpeg' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 's/style.css', data: 'body {}', ns: '-', mimeType: 'text/css' }));
+    await zimCreator.addArticle(new ZimArticle({ url: 'favicon', data: 'png', ns: '-', mimeType: 'image/png' }));
+    await zimCreator.finalise();
+    return zimPath;
+}
+
+test('ZIM validation', async (t) => {
+    const zimPath = await createZim(tmp.dirSync().name);
+
+    const report = await validateZim(zimPath, { welcome: 'index' });
+    t.equal(report.articles, 2, 'HTML articles are parsed');
+    t.deepEqual(report.links, { total: 3, broken: 1 }, 'Internal links are checked, external ones are ignored');
+    t.deepEqual(report.issues.brokenLinks, [{ from: 'A/index', to: 'A/Paris', count: 1 }], 'Broken link is reported');
+    t.deepEqual(report.media, { total: 3, missing: 1 }, 'Images and stylesheets are checked');
+    t.deepEqual(report.issues.missingMedia, [{ from: 'A/index', to: 'I/m/Missing.png', count: 1 }], 'Missing image is reported');
+    t.deepEqual(report.redirects, { total: 1, dangling: 0 }, 'Redirect to an existing article');
+    t.ok(report.mainPage && report.favicon, 'Main page and favicon are there');
+    t.equal(report.failures.length, 2, 'Broken links and missing media above the default thresholds');
+
+    const tolerant = await validateZim(zimPath, { welcome: 'index', brokenLinkThreshold: 0.5, missingMediaThreshold: 0.5 });
+    t.deepEqual(tolerant.failures, [], 'Valid below the thresholds');
+
+    const withoutMainPage = await validateZim(zimPath, { welcome: 'Paris', brokenLinkThreshold: 1, missingMediaThreshold: 1 });
+    t.deepEqual(withoutMainPage.failures, ['main page [A/Paris] is missing'], 'Missing main page');
+});
+
+test('ZIM validation arguments', async (t) => {
+    t.doesNotThrow(() => sanitize_zimValidation({ validateZim: true, brokenLinkThreshold: '0.05', danglingRedirectThreshold: 0 }), 'Valid thresholds');
+    t.throws(() => sanitize_zimValidation({ validateZim: true, missingMediaThreshold: '2' }), /not valid/, 'Threshold above 1');
+    t.throws(() => sanitize_zimValidation({ brokenLinkThreshold: '0.1' }), /needs --validateZim/, 'Threshold without validation');
+    t.throws(() => sanitize_zimValidation({ validateZim: true, outputFormat: 'epub' }), /only works with the ZIM/, 'Validation of an EPUB');
+});